@@ -0,0 +1,312 @@
+import { readFileSync } from "node:fs";
+
+/**
+ * A named set of credentials, sent only to URLs whose host matches one of
+ * `hosts` (a hostname, `*.suffix` or `*`), and only over https unless
+ * `allowHttp` is set
+ */
+export interface CredentialProfile {
+  type: "bearer" | "basic" | "headers" | "cookie";
+  hosts: string[];
+  allowHttp: boolean;
+  /** Request headers the profile adds (a Cookie value is appended) */
+  headers: Record<string, string>;
+  /** Values redacted from anything returned to the client */
+  secrets: string[];
+}
+
+/**
+ * Thrown when the credential profiles in CREDENTIALS or CREDENTIALS_FILE are
+ * malformed. Messages name the profile and field, never the secret values.
+ */
+export class CredentialConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid credential profiles: ${message}`);
+    this.name = "CredentialConfigError";
+  }
+}
+
+/**
+ * Routes requests to hosts matching `pattern` (a hostname, `*.suffix` or
+ * `*`) through `proxy`, or directly when `proxy` is null
+ */
+export interface ProxyRule {
+  pattern: string;
+  proxy: string | null;
+}
+
+/**
+ * Server-level configuration, read from environment variables at startup
+ * and overridable programmatically via `configure()`.
+ */
+export interface ServerConfig {
+  /** Default request timeout in milliseconds */
+  defaultTimeoutMs: number;
+  /** User agent sent with outbound requests */
+  userAgent: string;
+  /** Default limit on (decompressed) response body size in bytes */
+  maxResponseBytes: number;
+  /**
+   * Destinations exempt from the private-network (SSRF) guard. Entries may be
+   * hostnames, `*.suffix` wildcards, IP addresses or CIDR ranges; a single
+   * `*` disables the guard entirely.
+   */
+  fetchAllowlist: string[];
+  /** Retries after a transient failure (connection reset, 5xx, 429) */
+  maxRetries: number;
+  /** Base delay for exponential backoff between retries */
+  retryBaseDelayMs: number;
+  /** Longest delay waited before a retry, including Retry-After */
+  retryMaxDelayMs: number;
+  /** Response cache backend */
+  cacheStore: "memory" | "directory" | "none";
+  /** Directory used by the "directory" cache store */
+  cacheDir: string;
+  /** Maximum number of responses kept by the cache store */
+  cacheMaxEntries: number;
+  /** Maximum total body bytes kept by the cache store (file bytes for "directory") */
+  cacheMaxBytes: number;
+  /** Maximum simultaneous requests to one origin */
+  hostConcurrency: number;
+  /** Minimum delay between the start of two requests to one origin */
+  hostDelayMs: number;
+  /** Check robots.txt before fetching and honour its Crawl-delay */
+  respectRobotsTxt: boolean;
+  /** Proxy for http:// URLs; credentials may be given in the URL */
+  httpProxy: string | null;
+  /** Proxy for https:// URLs; credentials may be given in the URL */
+  httpsProxy: string | null;
+  /** Hosts (`host`, `.suffix`, `host:port` or `*`) that bypass the proxies */
+  noProxy: string[];
+  /** Per-host proxy routes, checked in order before the settings above */
+  proxyRules: ProxyRule[];
+  /** Credential profiles that tool calls can refer to by name */
+  credentialProfiles: Record<string, CredentialProfile>;
+  /** Send requests to the network, record them as fixtures, or replay fixtures */
+  fetchMode: "live" | "record" | "replay";
+  /** Fixture directory, or a HAR file when the path ends in `.har` */
+  fixturesPath: string;
+  /** Directory that WARC files named in tool calls are written to and read from */
+  warcDir: string;
+}
+
+/**
+ * Split a comma-separated environment variable into trimmed entries
+ */
+function parseList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse a positive integer environment variable, falling back to a default
+ */
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Parse a non-negative integer environment variable, falling back to a default
+ */
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Parse the CACHE_STORE environment variable, defaulting to "memory"
+ */
+function parseCacheStore(value: string | undefined): ServerConfig["cacheStore"] {
+  return value === "directory" || value === "none" ? value : "memory";
+}
+
+/**
+ * Parse the FETCH_MODE environment variable, defaulting to "live"
+ */
+function parseFetchMode(value: string | undefined): ServerConfig["fetchMode"] {
+  return value === "record" || value === "replay" ? value : "live";
+}
+
+/**
+ * Parse PROXY_RULES: comma-separated `pattern=proxy-url` or `pattern=direct`
+ * entries. Entries without `=` are ignored.
+ */
+function parseProxyRules(value: string | undefined): ProxyRule[] {
+  return parseList(value).flatMap((entry) => {
+    const separator = entry.indexOf("=");
+    if (separator === -1) {
+      return [];
+    }
+    const pattern = entry.slice(0, separator).trim().toLowerCase();
+    const target = entry.slice(separator + 1).trim();
+    return [{ pattern, proxy: target === "direct" ? null : target }];
+  });
+}
+
+function requireString(entry: Record<string, unknown>, field: string, name: string): string {
+  const value = entry[field];
+  if (typeof value !== "string" || value === "") {
+    throw new CredentialConfigError(`profile ${name} needs a non-empty string "${field}"`);
+  }
+  return value;
+}
+
+/**
+ * Validate one credential profile and turn it into the headers it sends
+ */
+function parseCredentialProfile(name: string, entry: unknown): CredentialProfile {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new CredentialConfigError(`profile ${name} must be an object`);
+  }
+  const fields = entry as Record<string, unknown>;
+
+  const hosts = fields.hosts;
+  if (
+    !Array.isArray(hosts) ||
+    hosts.length === 0 ||
+    !hosts.every((host) => typeof host === "string" && host !== "")
+  ) {
+    throw new CredentialConfigError(`profile ${name} needs a non-empty "hosts" list`);
+  }
+  const scope = {
+    hosts: hosts.map((host: string) => host.toLowerCase()),
+    allowHttp: fields.allow_http === true,
+  };
+
+  switch (fields.type) {
+    case "bearer": {
+      const token = requireString(fields, "token", name);
+      return { type: "bearer", ...scope, headers: { Authorization: `Bearer ${token}` }, secrets: [token] };
+    }
+    case "basic": {
+      const username = requireString(fields, "username", name);
+      const password = requireString(fields, "password", name);
+      const encoded = Buffer.from(`${username}:${password}`).toString("base64");
+      return {
+        type: "basic",
+        ...scope,
+        headers: { Authorization: `Basic ${encoded}` },
+        secrets: [encoded, password],
+      };
+    }
+    case "headers": {
+      const headers = fields.headers;
+      if (
+        !headers ||
+        typeof headers !== "object" ||
+        Object.values(headers).some((value) => typeof value !== "string" || value === "")
+      ) {
+        throw new CredentialConfigError(`profile ${name} needs a "headers" object of strings`);
+      }
+      const values = headers as Record<string, string>;
+      return { type: "headers", ...scope, headers: { ...values }, secrets: Object.values(values) };
+    }
+    case "cookie": {
+      const cookie = requireString(fields, "cookie", name);
+      // Whole name=value pairs: a bare value ("1", "en") is too likely to be ordinary text
+      const pairs = cookie
+        .split(";")
+        .map((pair) => pair.trim())
+        .filter((pair) => pair.length > 0);
+      return { type: "cookie", ...scope, headers: { Cookie: cookie }, secrets: [cookie, ...pairs] };
+    }
+    default:
+      throw new CredentialConfigError(
+        `profile ${name} has unknown type (use bearer, basic, headers or cookie)`
+      );
+  }
+}
+
+/**
+ * Parse a JSON object of credential profiles keyed by name
+ */
+function parseCredentialProfiles(json: string, source: string): Record<string, CredentialProfile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new CredentialConfigError(`${source} is not valid JSON`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new CredentialConfigError(`${source} must be an object of profiles keyed by name`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed).map(([name, entry]) => [name, parseCredentialProfile(name, entry)])
+  );
+}
+
+/**
+ * Load credential profiles from CREDENTIALS_FILE and the CREDENTIALS
+ * variable; profiles in CREDENTIALS replace file profiles of the same name
+ */
+function loadCredentialProfiles(env: NodeJS.ProcessEnv): Record<string, CredentialProfile> {
+  let fromFile: Record<string, CredentialProfile> = {};
+  if (env.CREDENTIALS_FILE) {
+    let text: string;
+    try {
+      text = readFileSync(env.CREDENTIALS_FILE, "utf-8");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "unknown error";
+      throw new CredentialConfigError(`cannot read CREDENTIALS_FILE: ${reason}`);
+    }
+    fromFile = parseCredentialProfiles(text, "CREDENTIALS_FILE");
+  }
+  const fromEnv = env.CREDENTIALS ? parseCredentialProfiles(env.CREDENTIALS, "CREDENTIALS") : {};
+  return { ...fromFile, ...fromEnv };
+}
+
+/**
+ * Build the configuration from environment variables
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    defaultTimeoutMs: parsePositiveInt(env.DEFAULT_TIMEOUT_MS, 30000),
+    userAgent: env.USER_AGENT || "webpage-extract/1.0.0",
+    maxResponseBytes: parsePositiveInt(env.MAX_RESPONSE_BYTES, 10 * 1024 * 1024),
+    fetchAllowlist: parseList(env.FETCH_ALLOWLIST),
+    maxRetries: parseNonNegativeInt(env.MAX_RETRIES, 2),
+    retryBaseDelayMs: parsePositiveInt(env.RETRY_BASE_DELAY_MS, 500),
+    retryMaxDelayMs: parsePositiveInt(env.RETRY_MAX_DELAY_MS, 30000),
+    cacheStore: parseCacheStore(env.CACHE_STORE),
+    cacheDir: env.CACHE_DIR || ".cache/webpage-extract",
+    cacheMaxEntries: parsePositiveInt(env.CACHE_MAX_ENTRIES, 100),
+    cacheMaxBytes: parsePositiveInt(env.CACHE_MAX_BYTES, 50 * 1024 * 1024),
+    hostConcurrency: parsePositiveInt(env.PER_HOST_CONCURRENCY, 4),
+    hostDelayMs: parseNonNegativeInt(env.PER_HOST_DELAY_MS, 0),
+    respectRobotsTxt: env.RESPECT_ROBOTS_TXT === "true",
+    httpProxy: env.HTTP_PROXY || env.http_proxy || null,
+    httpsProxy: env.HTTPS_PROXY || env.https_proxy || null,
+    noProxy: parseList(env.NO_PROXY || env.no_proxy),
+    proxyRules: parseProxyRules(env.PROXY_RULES),
+    credentialProfiles: loadCredentialProfiles(env),
+    fetchMode: parseFetchMode(env.FETCH_MODE),
+    fixturesPath: env.FIXTURES_PATH || "fixtures",
+    warcDir: env.WARC_DIR || "warc",
+  };
+}
+
+let currentConfig: ServerConfig = loadConfig();
+
+/**
+ * Get the active configuration
+ */
+export function getConfig(): ServerConfig {
+  return currentConfig;
+}
+
+/**
+ * Override parts of the active configuration
+ * @returns The previous configuration, so callers (e.g. tests) can restore it
+ */
+export function configure(overrides: Partial<ServerConfig>): ServerConfig {
+  const previous = currentConfig;
+  currentConfig = { ...currentConfig, ...overrides };
+  return previous;
+}
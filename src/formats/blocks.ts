@@ -0,0 +1,266 @@
+import type * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import type { ContentBlock, ListItem, SourcePosition } from "../types.js";
+import { extractTable, isLayoutTable } from "./table.js";
+
+const NON_CONTENT_TAGS = new Set(["script", "style", "noscript", "template"]);
+
+/** Elements whose text runs on within the surrounding paragraph */
+const INLINE_TAGS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "font",
+  "i",
+  "ins",
+  "kbd",
+  "label",
+  "mark",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strike",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+  "wbr",
+]);
+
+/** Elements of a paragraph's own that can hold other blocks */
+const NESTED_BLOCKS = "p, div, ul, ol, pre, blockquote, table, img, h1, h2, h3, h4, h5, h6";
+
+/**
+ * Collapse whitespace within lines, keeping the line breaks <br> made
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+/**
+ * Text of a node as rendered: <br> becomes a line break, and non-content
+ * elements and `skip`ped ones contribute nothing
+ */
+function renderedText(node: AnyNode, skip: (element: Element) => boolean = () => false): string {
+  if (node.type === "text") {
+    return node.data;
+  }
+  if (node.type !== "tag" || NON_CONTENT_TAGS.has(node.tagName) || skip(node)) {
+    return "";
+  }
+  if (node.tagName === "br") {
+    return "\n";
+  }
+  return node.children.map((child) => renderedText(child, skip)).join("");
+}
+
+/**
+ * Where a run of sibling nodes came from, if the document was parsed with
+ * source locations
+ */
+function positionOf(first: AnyNode, last: AnyNode = first): SourcePosition | undefined {
+  const start = first.sourceCodeLocation;
+  const end = last.sourceCodeLocation;
+  if (!start || !end) {
+    return undefined;
+  }
+  return {
+    start: start.startOffset,
+    end: end.endOffset,
+    line: start.startLine,
+    column: start.startCol,
+  };
+}
+
+function isList(node: AnyNode): node is Element {
+  return node.type === "tag" && (node.tagName === "ul" || node.tagName === "ol");
+}
+
+/**
+ * Read a list's items: their text, checkbox state, and the items of lists
+ * nested in them
+ */
+function listItems($: cheerio.CheerioAPI, list: Element): ListItem[] {
+  return $(list)
+    .children("li")
+    .toArray()
+    .map((li) => {
+      const item: ListItem = { text: normalizeText(renderedText(li, isList)) };
+      const checkbox = $(li)
+        .find('input[type="checkbox" i]')
+        .filter((_, input) => $(input).closest("li").is(li))
+        .first();
+      if (checkbox.length > 0) {
+        item.checked = checkbox.attr("checked") !== undefined;
+      }
+      const nestedLists = $(li)
+        .find("ul, ol")
+        .filter((_, nestedList) => $(nestedList).parent().closest("li").is(li))
+        .toArray();
+      const nested = nestedLists.flatMap((nestedList) => listItems($, nestedList));
+      if (nested.length > 0) {
+        item.items = nested;
+        item.ordered = nestedLists[0].tagName === "ol";
+      }
+      return item;
+    });
+}
+
+/**
+ * Split the content under `nodes` into typed blocks, in document order.
+ * Text outside block elements (loose in a <div>, say) forms paragraphs of
+ * its own; layout tables are looked into rather than read as data. Blocks
+ * carry their position when the document was loaded with
+ * `sourceCodeLocationInfo`.
+ */
+export function extractBlocks($: cheerio.CheerioAPI, nodes: AnyNode[]): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let run: AnyNode[] = [];
+
+  const push = (block: ContentBlock, first: AnyNode, last?: AnyNode) => {
+    const position = positionOf(first, last);
+    blocks.push(position ? { ...block, position } : block);
+  };
+
+  // Inline content between block elements becomes a paragraph
+  const flush = () => {
+    const text = normalizeText(run.map((node) => renderedText(node)).join(""));
+    if (text) {
+      push({ type: "paragraph", text }, run[0], run[run.length - 1]);
+    }
+    run = [];
+  };
+
+  const visit = (node: AnyNode): void => {
+    if (node.type === "text") {
+      run.push(node);
+      return;
+    }
+    if (node.type !== "tag" || NON_CONTENT_TAGS.has(node.tagName)) {
+      return;
+    }
+
+    const tag = node.tagName;
+    const $node = $(node);
+    if (INLINE_TAGS.has(tag) || tag === "br") {
+      // Images in links and the like still come out as image blocks
+      if ($node.find("img").length > 0) {
+        node.children.forEach(visit);
+      } else {
+        run.push(node);
+      }
+      return;
+    }
+
+    flush();
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = normalizeText(renderedText(node));
+      if (text) {
+        push({ type: "heading", level: parseInt(heading[1], 10), text }, node);
+      }
+    } else if (tag === "p" && $node.find(NESTED_BLOCKS).length === 0) {
+      const text = normalizeText(renderedText(node));
+      if (text) {
+        push({ type: "paragraph", text }, node);
+      }
+    } else if (tag === "ul" || tag === "ol") {
+      const items = listItems($, node);
+      if (items.length > 0) {
+        push({ type: "list", ordered: tag === "ol", items }, node);
+      }
+    } else if (tag === "pre") {
+      const text = $node.text().replace(/^\n|\s+$/g, "");
+      const language = ($node.find("code").attr("class") ?? $node.attr("class") ?? "").match(
+        /language-(\w+)/
+      )?.[1];
+      if (text) {
+        push(language ? { type: "code", language, text } : { type: "code", text }, node);
+      }
+    } else if (tag === "blockquote") {
+      const text = blocksToText(extractBlocks($, node.children));
+      if (text) {
+        push({ type: "quote", text }, node);
+      }
+    } else if (tag === "table" && !isLayoutTable($, node)) {
+      const table = extractTable($, node);
+      if (table) {
+        push({ type: "table", ...table }, node);
+      }
+    } else if (tag === "img") {
+      const src = $node.attr("src")?.trim();
+      const title = $node.attr("title");
+      if (src) {
+        push(
+          title
+            ? { type: "image", src, alt: $node.attr("alt") ?? "", title }
+            : { type: "image", src, alt: $node.attr("alt") ?? "" },
+          node
+        );
+      }
+    } else if (tag !== "hr") {
+      node.children.forEach(visit);
+      flush();
+    }
+  };
+
+  nodes.forEach(visit);
+  flush();
+  return blocks;
+}
+
+function listText(items: ListItem[], ordered: boolean, depth = 0): string[] {
+  return items.flatMap((item, i) => {
+    const marker = ordered ? `${i + 1}.` : "-";
+    const box = item.checked === undefined ? "" : item.checked ? "[x] " : "[ ] ";
+    return [
+      `${"  ".repeat(depth)}${marker} ${box}${item.text}`,
+      ...listText(item.items ?? [], item.ordered ?? false, depth + 1),
+    ];
+  });
+}
+
+/**
+ * Render blocks as plain text: one paragraph per block, separated by blank
+ * lines. List items go on lines of their own, table cells are separated by
+ * " | ", and images are left out.
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "list":
+          return listText(block.items, block.ordered).join("\n");
+        case "table":
+          return [
+            block.caption ?? "",
+            block.headers.some((header) => header !== "") ? block.headers.join(" | ") : "",
+            ...block.rows.map((row) => row.join(" | ")),
+          ]
+            .filter((line) => line !== "")
+            .join("\n");
+        case "image":
+          return "";
+        default:
+          return block.text;
+      }
+    })
+    .filter((text) => text !== "")
+    .join("\n\n");
+}
@@ -0,0 +1,317 @@
+/**
+ * Units a chunk budget can be given in
+ */
+export type ChunkUnit = "tokens" | "characters";
+
+export interface ChunkOptions {
+  /** Largest chunk, overlap included */
+  size: number;
+  unit: ChunkUnit;
+  /** Amount of the previous chunk repeated at the start of each chunk */
+  overlap: number;
+}
+
+/**
+ * A piece of Markdown under the budget, with the headings it sits under
+ */
+export interface Chunk {
+  /** Overlap repeated from the previous chunk ("" for none) */
+  overlap: string;
+  /** The chunk's own content */
+  body: string;
+  /**
+   * What joins the body to the previous chunk's in the document: a blank line
+   * between blocks, or the separator where a paragraph was split for size
+   */
+  joiner: string;
+  /** Texts of the headings enclosing the chunk's first content, outermost first */
+  headingPath: string[];
+  /** Size of overlap and body together, in the options' unit */
+  size: number;
+}
+
+/**
+ * A run of Markdown between blank lines, or a heading, fenced code block or
+ * table (pipe or HTML). Atomic blocks are never split.
+ */
+interface Block {
+  text: string;
+  heading?: number;
+  atomic: boolean;
+  /** Heading path in effect at (and including) this block */
+  path: string[];
+  /** Separator before this block when it continues one split for size */
+  joiner?: string;
+}
+
+/**
+ * A piece of an oversized text block, with the separator that preceded it
+ * ("" for the first piece)
+ */
+interface Piece {
+  text: string;
+  joiner: string;
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const TABLE_ROW = /^\s*(\||<\/?table\b)/i;
+
+/**
+ * Estimate the number of tokens in `text` as counted by BPE tokenizers:
+ * words of up to five characters are one token, longer ones one per five
+ * characters, and each punctuation mark one more. No tokenizer is bundled, so this is approximate
+ * (within 10-20% for English prose).
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)) {
+    tokens += Math.ceil(match[0].length / 5);
+  }
+  return tokens;
+}
+
+function measurer(unit: ChunkUnit): (text: string) => number {
+  return unit === "tokens" ? estimateTokens : (text) => text.length;
+}
+
+/**
+ * Split Markdown into blocks, keeping fenced code blocks and tables whole
+ */
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const path: Array<{ level: number; text: string }> = [];
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (lines.length > 0) {
+      blocks.push({
+        text: lines.join("\n"),
+        atomic: fence !== null || lines.some((line) => TABLE_ROW.test(line)),
+        path: path.map((heading) => heading.text),
+      });
+      lines = [];
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      lines.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        flush();
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      lines.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading && heading[2]) {
+      flush();
+      const level = heading[1].length;
+      while (path.length > 0 && path[path.length - 1].level >= level) {
+        path.pop();
+      }
+      path.push({ level, text: heading[2] });
+      blocks.push({
+        text: line,
+        heading: level,
+        atomic: true,
+        path: path.map((entry) => entry.text),
+      });
+    } else if (line.trim() === "") {
+      flush();
+    } else {
+      lines.push(line);
+    }
+  }
+  // An unclosed fence runs to the end of the document
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split an oversized text block into pieces under `budget`: at line breaks,
+ * then sentence ends, then spaces, and as a last resort anywhere
+ */
+function splitText(text: string, budget: number, measure: (text: string) => number): Piece[] {
+  const separators: Array<[RegExp, string]> = [
+    [/\n/, "\n"],
+    [/(?<=[.!?])\s+/, " "],
+    [/\s+/, " "],
+  ];
+  for (const [separator, joiner] of separators) {
+    const parts = text.split(separator).filter((part) => part.trim().length > 0);
+    if (parts.length < 2) {
+      continue;
+    }
+    const pieces: string[] = [];
+    let current = "";
+    for (const part of parts) {
+      const candidate = current ? `${current}${joiner}${part}` : part;
+      if (current && measure(candidate) > budget) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = candidate;
+      }
+    }
+    pieces.push(current);
+    return pieces.flatMap((piece, i) => {
+      const before = i > 0 ? joiner : "";
+      if (measure(piece) <= budget) {
+        return [{ text: piece, joiner: before }];
+      }
+      const [first, ...rest] = splitText(piece, budget, measure);
+      return [{ ...first, joiner: before }, ...rest];
+    });
+  }
+
+  // A single unbreakable run: cut it by length
+  const pieces: Piece[] = [];
+  let rest = text;
+  while (rest.length > 0) {
+    let length = rest.length;
+    while (length > 1 && measure(rest.slice(0, length)) > budget) {
+      length = Math.floor(length / 2);
+    }
+    pieces.push({ text: rest.slice(0, length), joiner: "" });
+    rest = rest.slice(length);
+  }
+  return pieces;
+}
+
+/**
+ * Take the end of a chunk as the overlap for the next one: whole trailing
+ * blocks if they fit, otherwise the last words of a trailing text block
+ */
+function tailOf(blocks: Block[], overlap: number, measure: (text: string) => number): string {
+  if (overlap <= 0 || blocks.length === 0) {
+    return "";
+  }
+
+  const taken: string[] = [];
+  let size = 0;
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const blockSize = measure(blocks[i].text);
+    if (size + blockSize > overlap) {
+      break;
+    }
+    taken.unshift(blocks[i].text);
+    size += blockSize;
+  }
+  if (taken.length > 0) {
+    return taken.join("\n\n");
+  }
+
+  const last = blocks[blocks.length - 1];
+  if (last.atomic) {
+    return "";
+  }
+  const words = last.text.split(/\s+/);
+  let tail = "";
+  for (let i = words.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${words[i]} ${tail}` : words[i];
+    if (measure(candidate) > overlap) {
+      break;
+    }
+    tail = candidate;
+  }
+  return tail;
+}
+
+/**
+ * Split Markdown into chunks of at most `options.size`, along heading and
+ * paragraph boundaries. A heading starts a new chunk unless its whole section
+ * fits in the current one, and is never left at the end of a chunk. Code
+ * fences and tables are never split, so a chunk holding one that is larger
+ * than the budget exceeds it (as may a heading kept with a full-size first
+ * block); its `size` says by how much.
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions): Chunk[] {
+  const measure = measurer(options.unit);
+  const separator = measure("\n\n");
+  const budget = Math.max(1, options.size - options.overlap);
+
+  // Break oversized text blocks up front, so packing only sees pieces that fit
+  const blocks = parseBlocks(markdown).flatMap((block) =>
+    block.atomic || measure(block.text) <= budget
+      ? [block]
+      : splitText(block.text, budget, measure).map(({ text, joiner }, i) =>
+          i > 0 ? { ...block, text, joiner } : { ...block, text }
+        )
+  );
+  const sizes = blocks.map((block) => measure(block.text));
+
+  // Size of the section each heading opens, up to the next heading at its level or above
+  const sectionSize = (start: number): number => {
+    const level = blocks[start].heading ?? 0;
+    let size = sizes[start];
+    for (let i = start + 1; i < blocks.length; i++) {
+      const heading = blocks[i].heading;
+      if (heading !== undefined && heading <= level) {
+        break;
+      }
+      size += separator + sizes[i];
+    }
+    return size;
+  };
+
+  const groups: Block[][] = [];
+  let current: Block[] = [];
+  let currentSize = 0;
+
+  const flush = () => {
+    // Carry trailing headings over to the chunk with their content
+    let split = current.length;
+    while (split > 0 && current[split - 1].heading !== undefined) {
+      split--;
+    }
+    if (split === 0) {
+      return;
+    }
+    groups.push(current.slice(0, split));
+    current = current.slice(split);
+    currentSize = current.reduce(
+      (size, block, i) => size + measure(block.text) + (i > 0 ? separator : 0),
+      0
+    );
+  };
+
+  blocks.forEach((block, i) => {
+    const added = (current.length > 0 ? separator : 0) + sizes[i];
+    const overBudget = currentSize + added > budget;
+    const sectionOverflows =
+      block.heading !== undefined && currentSize + separator + sectionSize(i) > budget;
+    if (current.length > 0 && (overBudget || sectionOverflows)) {
+      flush();
+    }
+    currentSize += (current.length > 0 ? separator : 0) + sizes[i];
+    current.push(block);
+  });
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group, i) => {
+    const overlap = i > 0 ? tailOf(groups[i - 1], options.overlap, measure) : "";
+    const body = group
+      .map((block, j) => (j > 0 ? `${block.joiner ?? "\n\n"}${block.text}` : block.text))
+      .join("");
+    return {
+      overlap,
+      body,
+      joiner: group[0].joiner ?? "\n\n",
+      headingPath: (group.find((block) => block.heading === undefined) ?? group[0]).path,
+      size: measure(overlap ? `${overlap}\n\n${body}` : body),
+    };
+  });
+}
@@ -0,0 +1,146 @@
+import { decodeBody } from "../net/charset.js";
+import { escapeHtml } from "./html.js";
+import { feedToHtml, isFeed } from "./feed.js";
+import { pdfToDocument } from "./pdf.js";
+
+/**
+ * Kinds of response body the extractors understand
+ */
+export type ContentKind = "html" | "text" | "json" | "xml" | "feed" | "pdf";
+
+/**
+ * A response body converted for the extractors. `html` is always set so
+ * tables and metadata can be extracted from any kind; `markdown` is set when
+ * the content has a direct Markdown rendering that should be used as-is.
+ */
+export interface ConvertedDocument {
+  kind: ContentKind;
+  html: string;
+  markdown?: string;
+  warnings: string[];
+}
+
+/**
+ * Thrown when a response body is of a type the extractors cannot handle
+ */
+export class UnsupportedContentError extends Error {
+  readonly contentType: string;
+
+  constructor(contentType: string) {
+    super(`Unsupported content type: ${contentType}`);
+    this.name = "UnsupportedContentError";
+    this.contentType = contentType;
+  }
+}
+
+/**
+ * Get the lower-cased media type of a Content-Type header, without parameters
+ */
+export function mediaType(contentType: string | null): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+function startsWithBytes(bytes: Uint8Array, signature: string): boolean {
+  return [...signature].every((char, index) => bytes[index] === char.charCodeAt(0));
+}
+
+/**
+ * Decide how to handle a body from its media type. Bodies without a usable
+ * type are sniffed for a PDF signature and otherwise treated as HTML.
+ * Returns null for types the extractors do not support.
+ */
+export function detectContentKind(contentType: string | null, bytes: Uint8Array): ContentKind | null {
+  const type = mediaType(contentType);
+
+  if (!type || type === "application/octet-stream" || type === "binary/octet-stream") {
+    return startsWithBytes(bytes, "%PDF-") ? "pdf" : "html";
+  }
+  if (type === "text/html" || type === "application/xhtml+xml") {
+    return "html";
+  }
+  if (type === "application/pdf") {
+    return "pdf";
+  }
+  if (type === "application/json" || type.endsWith("+json")) {
+    return "json";
+  }
+  if (type === "application/rss+xml" || type === "application/atom+xml") {
+    return "feed";
+  }
+  if (type === "application/xml" || type === "text/xml" || type.endsWith("+xml")) {
+    return "xml";
+  }
+  if (type.startsWith("text/")) {
+    return "text";
+  }
+  return null;
+}
+
+/**
+ * Wrap text in a Markdown code fence longer than any backtick run inside it
+ */
+export function fenceCode(text: string, language = ""): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * HTML rendering of preformatted text, used for tables/metadata extraction
+ */
+function preformattedHtml(text: string, language?: string): string {
+  const code = language
+    ? `<code class="language-${language}">${escapeHtml(text)}</code>`
+    : escapeHtml(text);
+  return `<html><body><pre>${code}</pre></body></html>`;
+}
+
+/**
+ * Convert a fetched body into a document the extractors can work with,
+ * dispatching on its content type
+ *
+ * @throws UnsupportedContentError for images, archives and other binary types
+ */
+export async function convertBody(
+  bytes: Uint8Array,
+  contentType: string | null,
+  truncated = false
+): Promise<ConvertedDocument> {
+  const kind = detectContentKind(contentType, bytes);
+  if (kind === null) {
+    throw new UnsupportedContentError(mediaType(contentType));
+  }
+
+  if (kind === "pdf") {
+    return pdfToDocument(bytes);
+  }
+
+  const { text } = decodeBody(bytes, contentType, truncated);
+  const warnings: string[] = [];
+
+  switch (kind) {
+    case "html":
+      return { kind, html: text, warnings };
+
+    case "text":
+      return { kind, html: preformattedHtml(text), markdown: text.trim(), warnings };
+
+    case "json": {
+      let pretty = text.trim();
+      try {
+        pretty = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        warnings.push("Response is not valid JSON; showing it unformatted");
+      }
+      return { kind, html: preformattedHtml(pretty, "json"), markdown: fenceCode(pretty, "json"), warnings };
+    }
+
+    case "feed":
+    case "xml":
+      // Feeds are sometimes served as generic XML, so sniff the root element
+      if (isFeed(text)) {
+        return { kind: "feed", html: feedToHtml(text), warnings };
+      }
+      return { kind: "xml", html: preformattedHtml(text.trim(), "xml"), markdown: fenceCode(text.trim(), "xml"), warnings };
+  }
+}
@@ -0,0 +1,129 @@
+import * as cheerio from "cheerio";
+import type { Cheerio } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import { escapeHtml } from "./html.js";
+
+/**
+ * One entry of an RSS or Atom feed
+ */
+interface FeedItem {
+  title: string;
+  link?: string;
+  date?: string;
+  author?: string;
+  /** Item body as HTML */
+  content: string;
+}
+
+/**
+ * Find the direct children of an element with one of the given tag names
+ * (names include any namespace prefix, e.g. "dc:creator")
+ */
+function child($el: Cheerio<AnyNode>, ...names: string[]): Cheerio<Element> {
+  for (const name of names) {
+    const found = $el.children().filter((_, node) => node.tagName.toLowerCase() === name);
+    if (found.length > 0) {
+      return found.first();
+    }
+  }
+  return $el.children().slice(0, 0);
+}
+
+function childText($el: Cheerio<AnyNode>, ...names: string[]): string | undefined {
+  return child($el, ...names).text().trim() || undefined;
+}
+
+/**
+ * Get the alternate link of an Atom element, or the text of an RSS <link>
+ */
+function linkOf($el: Cheerio<AnyNode>): string | undefined {
+  const links = $el.children().filter((_, node) => node.tagName.toLowerCase() === "link");
+  const alternate = links.filter((_, node) => {
+    const rel = node.attribs.rel;
+    return !rel || rel === "alternate";
+  });
+  const link = alternate.length > 0 ? alternate.first() : links.first();
+  return link.attr("href") || link.text().trim() || undefined;
+}
+
+/**
+ * Get an Atom text construct as HTML, honouring its `type` attribute
+ */
+function atomHtml($el: Cheerio<Element>): string {
+  switch ($el.attr("type")) {
+    case "html":
+      return $el.text();
+    case "xhtml":
+      return $el.children().first().html() ?? "";
+    default:
+      return escapeHtml($el.text().trim());
+  }
+}
+
+/**
+ * Whether an XML document is an RSS, RDF or Atom feed
+ */
+export function isFeed(xml: string): boolean {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const root = $.root().children().first().prop("tagName")?.toLowerCase();
+  return root === "rss" || root === "rdf:rdf" || root === "feed";
+}
+
+/**
+ * Render an RSS 2.0, RSS 1.0 (RDF) or Atom feed as an HTML document: the
+ * feed title and description in the head, and one <article> per item
+ */
+export function feedToHtml(xml: string): string {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const root = $.root().children().first();
+  const atom = root.prop("tagName")?.toLowerCase() === "feed";
+
+  const channel = atom ? root : child(root, "channel");
+  const title = childText(channel, "title") ?? "";
+  const description = childText(channel, "description", "subtitle");
+  const link = linkOf(channel);
+
+  // RSS 2.0 nests items in <channel>; RDF and Atom put them under the root
+  const itemNodes = atom
+    ? root.children().filter((_, node) => node.tagName.toLowerCase() === "entry")
+    : channel.children().add(root.children()).filter((_, node) => node.tagName.toLowerCase() === "item");
+
+  const items: FeedItem[] = itemNodes.toArray().map((node) => {
+    const $item = $(node);
+    const body = atom
+      ? atomHtml(child($item, "content", "summary"))
+      : (childText($item, "content:encoded", "description") ?? "");
+    return {
+      title: childText($item, "title") ?? "",
+      link: linkOf($item),
+      date: childText($item, "pubdate", "published", "updated", "dc:date"),
+      author: atom
+        ? childText(child($item, "author"), "name")
+        : childText($item, "author", "dc:creator"),
+      content: body,
+    };
+  });
+
+  const head = [
+    `<title>${escapeHtml(title)}</title>`,
+    description ? `<meta name="description" content="${escapeHtml(description)}">` : "",
+    link ? `<link rel="canonical" href="${escapeHtml(link)}">` : "",
+  ].join("");
+
+  const articles = items.map((item) => {
+    const heading = item.link
+      ? `<a href="${escapeHtml(item.link)}">${escapeHtml(item.title)}</a>`
+      : escapeHtml(item.title);
+    const byline = [
+      item.date ? `<time>${escapeHtml(item.date)}</time>` : "",
+      item.author ? escapeHtml(item.author) : "",
+    ].filter(Boolean).join(" · ");
+    return `<article><h2>${heading}</h2>${byline ? `<p>${byline}</p>` : ""}<div>${item.content}</div></article>`;
+  });
+
+  return (
+    `<html><head>${head}</head><body><main>` +
+    `<h1>${escapeHtml(title)}</h1>${description ? `<p>${escapeHtml(description)}</p>` : ""}` +
+    `${articles.join("")}</main></body></html>`
+  );
+}
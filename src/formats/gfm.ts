@@ -0,0 +1,226 @@
+import * as cheerio from "cheerio";
+import type TurndownService from "turndown";
+import type { Element } from "domhandler";
+import { extractTable, getCellText, isLayoutTable } from "./table.js";
+
+/**
+ * How tables that a pipe table cannot represent (spanned cells, nested
+ * tables) are rendered
+ */
+export type TableFallback = "html" | "list";
+
+/** Attribute of the <pre> placeholders holding Markdown rendered up front */
+const RENDERED = "data-markdown";
+
+/** Attributes kept on tables rendered as HTML */
+const KEPT_ATTRIBUTES = new Set(["colspan", "rowspan", "scope", "href", "src", "alt", "title"]);
+
+/**
+ * The DOM node Turndown's rules receive (DOM types are not available in Node)
+ */
+interface TurndownNode {
+  nodeName: string;
+  textContent?: string | null;
+  checked?: boolean;
+  getAttribute(name: string): string | null;
+  parentNode?: { nodeName: string } | null;
+  nextSibling?: { textContent?: string | null } | null;
+}
+
+/**
+ * Add GitHub-flavoured Markdown rules: strikethrough, task list checkboxes,
+ * and the placeholders `renderTables` leaves for pipe tables
+ */
+export function addGfmRules(turndown: TurndownService): void {
+  turndown.addRule("strikethrough", {
+    filter: ["del", "s", "strike"],
+    replacement: (content) => (content.trim() ? `~~${content}~~` : content),
+  });
+
+  turndown.addRule("taskListItem", {
+    filter: (node) => {
+      const element = node as unknown as TurndownNode;
+      return (
+        element.nodeName === "INPUT" &&
+        element.getAttribute("type")?.toLowerCase() === "checkbox" &&
+        element.parentNode?.nodeName === "LI"
+      );
+    },
+    replacement: (_content, node) => {
+      const element = node as unknown as TurndownNode;
+      const box = element.checked || element.getAttribute("checked") !== null ? "[x]" : "[ ]";
+      // The label usually brings its own leading space
+      return /^\s/.test(element.nextSibling?.textContent ?? "") ? box : `${box} `;
+    },
+  });
+
+  turndown.addRule("rendered", {
+    filter: (node) => {
+      const element = node as unknown as TurndownNode;
+      return element.nodeName === "PRE" && element.getAttribute(RENDERED) !== null;
+    },
+    replacement: (_content, node) =>
+      `\n\n${(node as unknown as TurndownNode).textContent ?? ""}\n\n`,
+  });
+}
+
+/**
+ * Escape a cell's Markdown for a pipe table: one line, with pipes escaped
+ */
+function tableCell(markdown: string): string {
+  return markdown
+    .trim()
+    .replace(/\n{2,}/g, "<br>")
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/\|/g, "\\|");
+}
+
+function pipeRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+/**
+ * Check whether a table has cells spanning rows or columns, or nested
+ * tables, which a pipe table cannot represent
+ */
+function needsFallback($: cheerio.CheerioAPI, table: Element): boolean {
+  const $table = $(table);
+  const spans = $table.find("td, th").filter((_, cell) => {
+    const colspan = parseInt(cell.attribs.colspan ?? "1", 10);
+    const rowspan = parseInt(cell.attribs.rowspan ?? "1", 10);
+    return colspan > 1 || rowspan > 1;
+  });
+  return spans.length > 0 || $table.find("table").length > 0;
+}
+
+/**
+ * Render a table as trimmed-down HTML, one row per line
+ */
+function tableHtml($: cheerio.CheerioAPI, table: Element): string {
+  const $copy = $(table).clone();
+  $copy.find("*").addBack().each((_, element) => {
+    for (const name of Object.keys("attribs" in element ? element.attribs : {})) {
+      if (!KEPT_ATTRIBUTES.has(name)) {
+        $(element).removeAttr(name);
+      }
+    }
+  });
+  return ($.html($copy) ?? "")
+    .replace(/\s+/g, " ")
+    .replace(/>\s+</g, "><")
+    .replace(/<tr>/g, "\n<tr>")
+    .replace(/<\/table>/, "\n</table>");
+}
+
+/**
+ * Lay a table's cell texts out on a grid, repeating spanned cells in every
+ * row and column they cover
+ */
+function tableGrid($: cheerio.CheerioAPI, table: Element): string[][] {
+  const grid: string[][] = [];
+  const rows = $(table)
+    .find("tr")
+    .filter((_, row) => $(row).closest("table").is(table));
+
+  rows.each((r, row) => {
+    grid[r] ??= [];
+    let column = 0;
+    $(row)
+      .children("td, th")
+      .each((_, cell) => {
+        while (grid[r][column] !== undefined) {
+          column++;
+        }
+        const text = getCellText($, cell);
+        const colspan = Math.max(1, parseInt(cell.attribs.colspan ?? "1", 10) || 1);
+        const rowspan = Math.max(1, parseInt(cell.attribs.rowspan ?? "1", 10) || 1);
+        for (let dr = 0; dr < rowspan && r + dr < rows.length; dr++) {
+          grid[r + dr] ??= [];
+          for (let dc = 0; dc < colspan; dc++) {
+            grid[r + dr][column + dc] = text;
+          }
+        }
+        column += colspan;
+      });
+  });
+
+  return grid.map((row) => Array.from(row, (text) => text ?? ""));
+}
+
+/**
+ * Render a table as a bullet list, one item per row, labelling each value
+ * with its column header. Headers are detected as extract_tables does (a
+ * <thead>, or <th> cells in the first row); spanned cells are repeated.
+ */
+function tableList($: cheerio.CheerioAPI, table: Element): string {
+  const $table = $(table);
+  const grid = tableGrid($, table);
+  const firstRow = $table.find("tr").first();
+  const hasHeader =
+    $table.find("thead tr").length > 0 || firstRow.children("th").length > 0;
+  const headers = hasHeader ? grid[0] ?? [] : [];
+
+  const items = grid.slice(hasHeader ? 1 : 0).map((row) => {
+    const values = row
+      .map((value, i) => (value && headers[i] ? `${headers[i]}: ${value}` : value))
+      .filter((value) => value !== "");
+    return `- ${values.join("; ")}`;
+  });
+  const caption = $table.children("caption").text().trim();
+  return [caption ? `*${caption}*\n` : "", ...items].join("\n").trim();
+}
+
+/**
+ * Render the data tables in an HTML fragment as pipe tables, replacing each
+ * with a placeholder that the "rendered" Turndown rule emits verbatim. Headers
+ * are detected as extract_tables does; cells are converted with `toMarkdown`.
+ * Layout tables are left for Turndown to flatten.
+ */
+export function renderTables(
+  html: string,
+  toMarkdown: (html: string) => string,
+  fallback: TableFallback = "html"
+): string {
+  const $ = cheerio.load(html, null, false);
+  const tables = $("table").toArray();
+  if (tables.length === 0) {
+    return html;
+  }
+
+  // Outermost first; a table nested in one already rendered goes with it
+  const rendered = new Set<Element>();
+  for (const table of tables) {
+    const inRendered = $(table)
+      .parents("table")
+      .toArray()
+      .some((parent) => rendered.has(parent));
+    if (inRendered || isLayoutTable($, table)) {
+      continue;
+    }
+    rendered.add(table);
+
+    let markdown: string;
+    if (needsFallback($, table)) {
+      markdown = fallback === "list" ? tableList($, table) : tableHtml($, table);
+    } else {
+      const data = extractTable($, table, (cell) => tableCell(toMarkdown($(cell).html() ?? "")));
+      if (!data) {
+        $(table).remove();
+        continue;
+      }
+      markdown = [
+        data.caption ? `*${data.caption}*\n` : "",
+        pipeRow(data.headers),
+        pipeRow(data.headers.map(() => "---")),
+        ...data.rows.map(pipeRow),
+      ]
+        .join("\n")
+        .trim();
+    }
+
+    const placeholder = $("<pre></pre>").attr(RENDERED, "").text(markdown);
+    $(table).replaceWith(placeholder);
+  }
+
+  return $.html();
+}
@@ -0,0 +1,195 @@
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+/**
+ * Escape text for use in HTML content or a double-quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Elements dropped from sanitized HTML along with their content */
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "svg",
+  "math",
+  "canvas",
+  "audio",
+  "video",
+  "source",
+  "track",
+  "button",
+  "select",
+  "textarea",
+  "link",
+  "meta",
+  "base",
+  "head",
+  "title",
+]);
+
+/** Attributes kept in sanitized HTML, by element */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+  img: ["src", "srcset", "alt", "title", "width", "height"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan", "scope"],
+  ol: ["start", "reversed"],
+  li: ["value"],
+  time: ["datetime"],
+  abbr: ["title"],
+  input: ["type", "checked", "disabled"],
+  h1: ["id"],
+  h2: ["id"],
+  h3: ["id"],
+  h4: ["id"],
+  h5: ["id"],
+  h6: ["id"],
+};
+
+/** Elements kept in sanitized HTML; others are replaced by their content */
+const ALLOWED_TAGS = new Set([
+  ...Object.keys(ALLOWED_ATTRIBUTES),
+  "article",
+  "section",
+  "main",
+  "div",
+  "p",
+  "br",
+  "hr",
+  "ul",
+  "dl",
+  "dt",
+  "dd",
+  "blockquote",
+  "pre",
+  "code",
+  "kbd",
+  "samp",
+  "var",
+  "em",
+  "strong",
+  "b",
+  "i",
+  "u",
+  "s",
+  "del",
+  "ins",
+  "strike",
+  "sub",
+  "sup",
+  "mark",
+  "small",
+  "cite",
+  "q",
+  "figure",
+  "figcaption",
+  "details",
+  "summary",
+  "table",
+  "caption",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+]);
+
+/** URL schemes kept in sanitized links and images; relative URLs are kept too */
+const SAFE_URL_SCHEMES = new Set(["http:", "https:", "mailto:"]);
+
+/**
+ * Whether a URL is relative or uses a safe scheme. Whitespace and control
+ * characters are ignored, as browsers ignore them inside a scheme.
+ */
+function isSafeUrl(url: string): boolean {
+  const scheme = url.replace(/[\u0000-\u0020\u007f]/g, "").match(/^[a-z][a-z0-9+.-]*:/i);
+  return !scheme || SAFE_URL_SCHEMES.has(scheme[0].toLowerCase());
+}
+
+/**
+ * Keep the `srcset` candidates ("a.png 1x, b.png 2x") with safe URLs
+ */
+function safeSrcset(srcset: string): string {
+  return srcset
+    .split(",")
+    .map((candidate) => candidate.trim())
+    .filter((candidate) => candidate !== "" && isSafeUrl(candidate.split(/\s+/)[0]))
+    .join(", ");
+}
+
+/**
+ * Render `nodes` as sanitized HTML: dangerous and interactive elements are
+ * dropped, other elements outside the allow-list (span, font, ...) are
+ * replaced by their content, and only allow-listed attributes survive, plus
+ * `language-*` classes on code blocks. Checkboxes are kept for task lists.
+ * URLs other than relative, http(s) and mailto ones are removed.
+ */
+export function sanitizeHtml($: cheerio.CheerioAPI, nodes: AnyNode[]): string {
+  const $copy = cheerio.load($.html(nodes), null, false);
+
+  // Deepest first, so an unwrapped element's content is already clean
+  const elements = $copy("*")
+    .toArray()
+    .filter((node): node is Element => node.type === "tag");
+  for (const element of elements.reverse()) {
+    const $element = $copy(element);
+    const tag = element.tagName.toLowerCase();
+    const isCheckbox = tag === "input" && $element.attr("type")?.toLowerCase() === "checkbox";
+    if (DROPPED_TAGS.has(tag) || (tag === "input" && !isCheckbox)) {
+      $element.remove();
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      $element.replaceWith($element.contents());
+      continue;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+    for (const [name, value] of Object.entries(element.attribs)) {
+      const isLanguage = name === "class" && (tag === "code" || tag === "pre");
+      const isUnsafeUrl = (name === "href" || name === "src") && !isSafeUrl(value);
+      if (isLanguage) {
+        const languages = value.split(/\s+/).filter((cls) => cls.startsWith("language-"));
+        if (languages.length > 0) {
+          $element.attr("class", languages.join(" "));
+          continue;
+        }
+      }
+      if (name === "srcset" && allowed.includes(name)) {
+        const srcset = safeSrcset(value);
+        if (srcset) {
+          $element.attr(name, srcset);
+          continue;
+        }
+      }
+      if (!allowed.includes(name) || isUnsafeUrl || name === "srcset") {
+        $element.removeAttr(name);
+      }
+    }
+  }
+  $copy
+    .root()
+    .find("*")
+    .addBack()
+    .contents()
+    .filter((_, node) => node.type === "comment")
+    .remove();
+
+  return $copy
+    .html()
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
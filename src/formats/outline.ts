@@ -0,0 +1,209 @@
+import type { AnyNode, Element } from "domhandler";
+import type { Heading, OutlineNode } from "../types.js";
+import { markdownHeadings } from "./sections.js";
+
+const NON_CONTENT_TAGS = new Set(["script", "style", "noscript", "template"]);
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+function textOf(node: AnyNode): string {
+  if (node.type === "text") {
+    return node.data;
+  }
+  return "children" in node ? node.children.map(textOf).join("") : "";
+}
+
+/**
+ * Turn heading text into a fragment id the way GitHub does: lower-cased,
+ * punctuation dropped, spaces replaced by hyphens
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Hands out heading ids: the page's own where it has one, otherwise a slug
+ * made unique with a numeric suffix (as GitHub does)
+ */
+class IdAllocator {
+  private readonly used = new Set<string>();
+
+  constructor(existing: Iterable<string> = []) {
+    for (const id of existing) {
+      this.used.add(id);
+    }
+  }
+
+  generate(text: string): string {
+    const base = slugify(text) || "section";
+    let id = base;
+    for (let n = 1; this.used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    this.used.add(id);
+    return id;
+  }
+}
+
+/**
+ * Fragment URL of `id` in the document at `documentUrl`
+ */
+function fragmentUrl(documentUrl: string | undefined, id: string): string | undefined {
+  if (!documentUrl) {
+    return undefined;
+  }
+  try {
+    const url = new URL(documentUrl);
+    url.hash = id;
+    return url.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function headingLevel(node: AnyNode): number | undefined {
+  const match = node.type === "tag" ? node.tagName.match(/^h([1-6])$/i) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * The id a heading can be linked to: its own, or that of an anchor inside it
+ */
+function anchorOf(heading: Element): string | undefined {
+  const find = (node: AnyNode): string | undefined => {
+    if (node.type !== "tag") {
+      return undefined;
+    }
+    const id = node.attribs.id || (node.tagName === "a" ? node.attribs.name : undefined);
+    return id?.trim() || node.children.map(find).find((found) => found !== undefined);
+  };
+  return find(heading);
+}
+
+function collectIds(node: AnyNode, ids: string[]): string[] {
+  if (node.type === "tag" && node.attribs.id) {
+    ids.push(node.attribs.id);
+  }
+  if ("children" in node) {
+    node.children.forEach((child) => collectIds(child, ids));
+  }
+  return ids;
+}
+
+/**
+ * Nest outline entries by level, each under the nearest preceding entry of a
+ * lower level
+ */
+class OutlineBuilder {
+  readonly roots: OutlineNode[] = [];
+  private readonly stack: OutlineNode[] = [];
+
+  add(node: OutlineNode): void {
+    while (this.stack.length > 0 && this.stack[this.stack.length - 1].level >= node.level) {
+      this.stack.pop();
+    }
+    const parent = this.stack[this.stack.length - 1];
+    (parent ? parent.children : this.roots).push(node);
+    this.stack.push(node);
+  }
+
+  /** Count words towards the current entry and the entries enclosing it */
+  addWords(words: number): void {
+    for (const node of this.stack) {
+      node.word_count += words;
+    }
+  }
+}
+
+/**
+ * Build the outline of the content under `roots` (walked in document order):
+ * one node per heading with text, nested by level, with its anchor id, the
+ * fragment URL when the document URL is known, and the number of words in
+ * its section (subsections included, heading text excluded)
+ */
+export function buildOutline(roots: AnyNode[], documentUrl?: string): OutlineNode[] {
+  const builder = new OutlineBuilder();
+  const ids = new IdAllocator(roots.flatMap((root) => collectIds(root, [])));
+
+  const visit = (node: AnyNode): void => {
+    if (node.type === "text") {
+      builder.addWords(countWords(node.data));
+      return;
+    }
+    if (node.type !== "tag" && node.type !== "root") {
+      return;
+    }
+    if (node.type === "tag" && NON_CONTENT_TAGS.has(node.tagName.toLowerCase())) {
+      return;
+    }
+
+    const level = node.type === "tag" ? headingLevel(node) : undefined;
+    if (node.type === "tag" && level !== undefined) {
+      const text = textOf(node).trim();
+      if (text) {
+        const anchor = anchorOf(node);
+        const id = anchor ?? ids.generate(text);
+        builder.add({
+          level,
+          text,
+          id,
+          id_source: anchor ? "page" : "generated",
+          url: fragmentUrl(documentUrl, id),
+          word_count: 0,
+          children: [],
+        });
+      }
+      return;
+    }
+    node.children.forEach(visit);
+  };
+
+  roots.forEach(visit);
+  return builder.roots;
+}
+
+/**
+ * Build the outline of a Markdown document from its ATX headings; ids are
+ * always generated, as Markdown has no anchors of its own
+ */
+export function buildMarkdownOutline(markdown: string, documentUrl?: string): OutlineNode[] {
+  const builder = new OutlineBuilder();
+  const ids = new IdAllocator();
+  const lines = markdown.split("\n");
+  const headings = markdownHeadings(markdown);
+
+  let line = 0;
+  for (const heading of headings) {
+    builder.addWords(countWords(lines.slice(line, heading.line).join(" ")));
+    const id = ids.generate(heading.text);
+    builder.add({
+      level: heading.level,
+      text: heading.text,
+      id,
+      id_source: "generated",
+      url: fragmentUrl(documentUrl, id),
+      word_count: 0,
+      children: [],
+    });
+    line = heading.line + 1;
+  }
+  builder.addWords(countWords(lines.slice(line).join(" ")));
+
+  return builder.roots;
+}
+
+/**
+ * Flatten an outline back into the headings list, in document order
+ */
+export function outlineHeadings(outline: OutlineNode[]): Heading[] {
+  return outline.flatMap((node) => [
+    { level: node.level, text: node.text },
+    ...outlineHeadings(node.children),
+  ]);
+}
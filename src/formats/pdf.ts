@@ -0,0 +1,80 @@
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import type { ConvertedDocument } from "./convert.js";
+import { escapeHtml } from "./html.js";
+
+/**
+ * Convert a PDF date ("D:YYYYMMDDHHmmSS+HH'mm'") to ISO 8601
+ */
+export function parsePdfDate(value: string): string | undefined {
+  const match = value.match(
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone] = match;
+  const offset = !zone || zone === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.replace(/'/g, "").slice(3, 5)}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Split page text into paragraphs at blank lines, joining wrapped lines
+ */
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((block) => block.split("\n").map((line) => line.trim()).filter(Boolean).join("\n"))
+    .filter(Boolean);
+}
+
+/**
+ * Extract the text of a PDF locally. The Markdown has one
+ * `<!-- page N -->` marker before each page's text; the HTML has one
+ * <section> per page and carries the document's title, author and creation
+ * date as metadata.
+ */
+export async function pdfToDocument(bytes: Uint8Array): Promise<ConvertedDocument> {
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const { info } = await getMeta(pdf);
+    const warnings: string[] = [];
+
+    const pages = text.map(paragraphs);
+    if (pages.every((page) => page.length === 0)) {
+      warnings.push("PDF contains no extractable text (it may be scanned images)");
+    }
+
+    const markdown = pages
+      .map((page, index) => [`<!-- page ${index + 1} -->`, ...page].join("\n\n"))
+      .join("\n\n");
+
+    const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+    const author = typeof info?.Author === "string" ? info.Author.trim() : "";
+    const created = typeof info?.CreationDate === "string" ? parsePdfDate(info.CreationDate) : undefined;
+    const head = [
+      title ? `<title>${escapeHtml(title)}</title>` : "",
+      author ? `<meta name="author" content="${escapeHtml(author)}">` : "",
+      created ? `<meta name="date" content="${created}">` : "",
+      `<meta name="pdf:pages" content="${totalPages}">`,
+    ].join("");
+    const body = pages
+      .map(
+        (page, index) =>
+          `<section id="page-${index + 1}">${page.map((p) => `<p>${escapeHtml(p)}</p>`).join("")}</section>`
+      )
+      .join("");
+
+    return {
+      kind: "pdf",
+      html: `<html><head>${head}</head><body>${body}</body></html>`,
+      markdown,
+      warnings,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,406 @@
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+/**
+ * The block chosen as a page's main content
+ */
+export interface MainContent {
+  /** The chosen node and any merged siblings, in document order */
+  nodes: Cheerio<Element>;
+  /** CSS selector path of the chosen node */
+  selector: string;
+  /** Readability score of the chosen node (0 unless chosen by scoring) */
+  score: number;
+  /** Selector paths of the sibling blocks merged in, in document order */
+  merged: string[];
+  /**
+   * How the node was chosen: the caller's content selector, the readability
+   * score, or the fallback for pages with nothing to score
+   */
+  method: "content_selector" | "scoring" | "fallback";
+}
+
+/** Paragraphs shorter than this are not scored */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/** Levels of ancestors a paragraph's score is propagated to */
+const ANCESTOR_LEVELS = 5;
+
+/** Alternative candidates that must share an ancestor for it to be chosen */
+const MIN_SHARED_CANDIDATES = 3;
+
+/** Class/id weight added or subtracted for a positive or negative hint */
+const CLASS_WEIGHT = 25;
+
+/** Class/id hints, as used by Mozilla Readability */
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_HINTS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|mathjax|shadow/i;
+
+/** Children that stop a div or td from being scored as a paragraph */
+const BLOCK_CHILDREN = new Set(["blockquote", "dl", "div", "img", "ol", "p", "pre", "table", "ul"]);
+
+/** Starting score of a candidate by tag name */
+const TAG_SCORES: Record<string, number> = {
+  div: 5,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  address: -3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  dd: -3,
+  dt: -3,
+  li: -3,
+  form: -3,
+  h1: -5,
+  h2: -5,
+  h3: -5,
+  h4: -5,
+  h5: -5,
+  h6: -5,
+  th: -5,
+};
+
+/** Class names and ids that can be written in a selector without escaping */
+const CSS_IDENTIFIER = /^-?[A-Za-z_][\w-]*$/;
+
+function isElement(node: AnyNode | null | undefined): node is Element {
+  return !!node && "attribs" in node && "tagName" in node;
+}
+
+function tagOf(element: Element): string {
+  return element.tagName.toLowerCase();
+}
+
+function childElements(element: Element): Element[] {
+  return element.children.filter(isElement);
+}
+
+/**
+ * Text content with whitespace collapsed
+ */
+function textOf($: CheerioAPI, element: Element): string {
+  return $(element).text().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Share of an element's text that is link text
+ */
+function linkDensity($: CheerioAPI, element: Element): number {
+  const length = textOf($, element).length;
+  if (length === 0) {
+    return 0;
+  }
+  const linkLength = $(element)
+    .find("a")
+    .toArray()
+    .reduce((total, link) => total + textOf($, link).length, 0);
+  return Math.min(linkLength / length, 1);
+}
+
+/**
+ * Weight from positive and negative hints in the class and id
+ */
+function classWeight(element: Element): number {
+  let weight = 0;
+  for (const value of [element.attribs.class, element.attribs.id]) {
+    if (!value) {
+      continue;
+    }
+    if (NEGATIVE_HINTS.test(value)) {
+      weight -= CLASS_WEIGHT;
+    }
+    if (POSITIVE_HINTS.test(value)) {
+      weight += CLASS_WEIGHT;
+    }
+  }
+  return weight;
+}
+
+/**
+ * Whether an element's class or id marks it as boilerplate. Its text
+ * is not scored, though it is kept if an ancestor is chosen.
+ */
+function isUnlikely(element: Element): boolean {
+  const tag = tagOf(element);
+  if (tag === "body" || tag === "main" || tag === "article") {
+    return false;
+  }
+  const hints = `${element.attribs.class ?? ""} ${element.attribs.id ?? ""}`;
+  return UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATES.test(hints);
+}
+
+/**
+ * Whether an element's text is scored as a paragraph: p and pre, and div or
+ * td elements without block-level children
+ */
+function isParagraph(element: Element): boolean {
+  const tag = tagOf(element);
+  if (tag === "p" || tag === "pre") {
+    return true;
+  }
+  return (
+    (tag === "div" || tag === "td") &&
+    !childElements(element).some((child) => BLOCK_CHILDREN.has(tagOf(child)))
+  );
+}
+
+/**
+ * CSS selector path from the document root (or the nearest ancestor with an
+ * id) to an element, with :nth-of-type where its tag and classes do not tell
+ * it apart from its siblings
+ */
+export function selectorPath(element: Element): string {
+  const parts: string[] = [];
+  for (let current: Element | null = element; current; ) {
+    const tag = tagOf(current);
+    const id = current.attribs.id;
+    if (id && CSS_IDENTIFIER.test(id)) {
+      parts.unshift(`${tag}#${id}`);
+      break;
+    }
+
+    let part = tag;
+    const classes = (current.attribs.class ?? "")
+      .split(/\s+/)
+      .filter((name) => CSS_IDENTIFIER.test(name));
+    if (classes.length > 0) {
+      part += `.${classes.join(".")}`;
+    }
+    const parent: Element | null = isElement(current.parent) ? current.parent : null;
+    const sameTag = parent ? childElements(parent).filter((child) => tagOf(child) === tag) : [];
+    const lookalikes = sameTag.filter((child) => {
+      const childClasses = (child.attribs.class ?? "").split(/\s+/);
+      return classes.every((name) => childClasses.includes(name));
+    });
+    if (lookalikes.length > 1) {
+      part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+    }
+    parts.unshift(part);
+    current = parent;
+  }
+  return parts.join(" > ");
+}
+
+/**
+ * Score every candidate block: each paragraph adds points for its length and
+ * commas to its parent, half to its grandparent and less to the ancestors
+ * above, and each candidate starts from a score for its tag and class/id
+ * hints. Final scores are reduced by the candidate's link density.
+ */
+function scoreCandidates($: CheerioAPI, root: Element): Map<Element, number> {
+  const scores = new Map<Element, number>();
+
+  const scoreParagraph = (paragraph: Element) => {
+    const text = textOf($, paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+    const points = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parent;
+    for (let level = 0; level < ANCESTOR_LEVELS && isElement(ancestor); level++) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, (TAG_SCORES[tagOf(ancestor)] ?? 0) + classWeight(ancestor));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + points / divider);
+      if (ancestor === root) {
+        break;
+      }
+      ancestor = ancestor.parent;
+    }
+  };
+
+  const walk = (element: Element, unlikely: boolean) => {
+    const skip = unlikely || isUnlikely(element);
+    if (!skip && isParagraph(element)) {
+      scoreParagraph(element);
+    }
+    for (const child of childElements(element)) {
+      walk(child, skip);
+    }
+  };
+  walk(root, false);
+
+  for (const [candidate, score] of scores) {
+    scores.set(candidate, score * (1 - linkDensity($, candidate)));
+  }
+  return scores;
+}
+
+function contains(ancestor: Element, node: Element): boolean {
+  for (let current = node.parent; isElement(current); current = current.parent) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Move from the top candidate to a better ancestor: one shared by several
+ * near-top candidates (an article split into blocks), or one that scores
+ * higher than the nodes below it. Wrappers with a single child are skipped.
+ */
+function refineTopCandidate(
+  top: Element,
+  ranked: Element[],
+  scores: Map<Element, number>,
+  root: Element
+): Element {
+  const topScore = scores.get(top)!;
+  const alternatives = ranked
+    .slice(1, 5)
+    .filter((candidate) => scores.get(candidate)! / topScore >= 0.75);
+  if (alternatives.length >= MIN_SHARED_CANDIDATES) {
+    for (let parent = top.parent; isElement(parent) && parent !== root; parent = parent.parent) {
+      const shared = alternatives.filter((candidate) => contains(parent as Element, candidate));
+      if (shared.length >= MIN_SHARED_CANDIDATES) {
+        top = parent;
+        break;
+      }
+    }
+  }
+
+  let lastScore = scores.get(top) ?? topScore;
+  const floor = lastScore / 3;
+  for (let parent = top.parent; isElement(parent) && parent !== root; parent = parent.parent) {
+    const parentScore = scores.get(parent);
+    if (parentScore === undefined) {
+      continue;
+    }
+    if (parentScore < floor) {
+      break;
+    }
+    if (parentScore > lastScore) {
+      top = parent;
+      break;
+    }
+    lastScore = parentScore;
+  }
+
+  while (isElement(top.parent) && top.parent !== root && childElements(top.parent).length === 1) {
+    top = top.parent;
+  }
+  return top;
+}
+
+/**
+ * Siblings of the chosen node that belong to the same article: those that
+ * score well (with a bonus for sharing its class), and prose paragraphs
+ */
+function mergeSiblings(
+  $: CheerioAPI,
+  top: Element,
+  scores: Map<Element, number>
+): Element[] {
+  const parent = top.parent;
+  if (!isElement(parent)) {
+    return [top];
+  }
+
+  const topScore = scores.get(top) ?? 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  return childElements(parent).filter((sibling) => {
+    if (sibling === top) {
+      return true;
+    }
+    const sameClass = !!top.attribs.class && sibling.attribs.class === top.attribs.class;
+    const score = scores.get(sibling);
+    if (score !== undefined && score + (sameClass ? topScore * 0.2 : 0) >= threshold) {
+      return true;
+    }
+    if (tagOf(sibling) !== "p") {
+      return false;
+    }
+    const text = textOf($, sibling);
+    const density = linkDensity($, sibling);
+    return (
+      (text.length > 80 && density < 0.25) ||
+      (text.length > 0 && text.length <= 80 && density === 0 && /\.( |$)/.test(text))
+    );
+  });
+}
+
+/**
+ * Choose the main content of a page in the spirit of Mozilla Readability:
+ * blocks are scored by their paragraphs' text length and commas, link
+ * density and class/id hints, scores are propagated to ancestors, and the
+ * best subtree is chosen together with siblings that continue it. When the
+ * body itself scores highest it is kept, unless a `main`, `article` or
+ * `[role="main"]` element scores nearly as well. Pages with nothing to score
+ * fall back to `main`, `article` or the body.
+ *
+ * Boilerplate should be removed from the document first.
+ *
+ * @param contentSelector - Use the elements matching this (valid) selector
+ *   instead, when there are any; nested matches are kept within the outer one
+ */
+export function findMainContent($: CheerioAPI, contentSelector?: string): MainContent {
+  if (contentSelector) {
+    const matches = $(contentSelector).filter(
+      (_, element) => $(element).parents(contentSelector).length === 0
+    );
+    if (matches.length > 0) {
+      return {
+        nodes: matches as Cheerio<Element>,
+        selector: contentSelector,
+        score: 0,
+        merged: [],
+        method: "content_selector",
+      };
+    }
+  }
+
+  const body = $("body").get(0) ?? $.root().children().get(0);
+  const root = isElement(body) ? body : undefined;
+  const scores = root ? scoreCandidates($, root) : new Map<Element, number>();
+  const ranked = [...scores.keys()].sort((a, b) => scores.get(b)! - scores.get(a)!);
+
+  if (!root || ranked.length === 0) {
+    const fallback = $('main, article, [role="main"]').first();
+    const nodes = fallback.length > 0 ? fallback : $("body");
+    const node = nodes.get(0);
+    return {
+      nodes: nodes as Cheerio<Element>,
+      selector: isElement(node) ? selectorPath(node) : "body",
+      score: 0,
+      merged: [],
+      method: "fallback",
+    };
+  }
+
+  if (ranked[0] === root) {
+    // Prose sits directly under the body: keep the body, unless a landmark
+    // element holds most of it
+    const rootScore = scores.get(root)!;
+    const landmark = $('main, article, [role="main"]')
+      .toArray()
+      .find((element) => (scores.get(element) ?? 0) >= rootScore * 0.75);
+    const chosen = landmark ?? root;
+    return {
+      nodes: $(chosen),
+      selector: selectorPath(chosen),
+      score: Math.round((scores.get(chosen) ?? 0) * 100) / 100,
+      merged: [],
+      method: "scoring",
+    };
+  }
+
+  const top = refineTopCandidate(ranked[0], ranked, scores, root);
+  const blocks = mergeSiblings($, top, scores);
+  return {
+    nodes: $(blocks),
+    selector: selectorPath(top),
+    score: Math.round((scores.get(top) ?? 0) * 100) / 100,
+    merged: blocks.filter((block) => block !== top).map(selectorPath),
+    method: "scoring",
+  };
+}
@@ -0,0 +1,141 @@
+import type { AnyNode, Element } from "domhandler";
+import type { Heading } from "../types.js";
+
+/**
+ * What the caller asked for: heading text, a pattern, or a position in the
+ * heading list (exactly one is set)
+ */
+export interface SectionQuery {
+  text?: string;
+  pattern?: RegExp;
+  index?: number;
+}
+
+/**
+ * A Markdown heading and the line it is on
+ */
+export interface MarkdownHeading extends Heading {
+  line: number;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Find the heading a query selects. Text matches ignore case and whitespace,
+ * preferring an exact match to the first heading containing the text.
+ * @returns The heading's index, or -1 if none matches
+ */
+export function findSection(headings: Heading[], query: SectionQuery): number {
+  if (query.index !== undefined) {
+    return query.index < headings.length ? query.index : -1;
+  }
+  if (query.pattern) {
+    const pattern = query.pattern;
+    return headings.findIndex((heading) => pattern.test(heading.text));
+  }
+
+  const wanted = normalize(query.text ?? "");
+  const exact = headings.findIndex((heading) => normalize(heading.text) === wanted);
+  return exact >= 0
+    ? exact
+    : headings.findIndex((heading) => normalize(heading.text).includes(wanted));
+}
+
+/**
+ * Texts of the headings enclosing heading `index`, outermost first
+ */
+export function sectionPath(headings: Heading[], index: number): string[] {
+  const path: string[] = [];
+  let level = headings[index].level;
+  for (let i = index - 1; i >= 0 && level > 1; i--) {
+    if (headings[i].level < level) {
+      path.unshift(headings[i].text);
+      level = headings[i].level;
+    }
+  }
+  return path;
+}
+
+function headingLevel(node: AnyNode): number | undefined {
+  const match = node.type === "tag" ? (node as Element).tagName.match(/^h([1-6])$/i) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * The node after `node` in document order, skipping its descendants
+ */
+function following(node: AnyNode): AnyNode | null {
+  let current: AnyNode | null = node;
+  while (current && !current.nextSibling) {
+    current = current.parent;
+  }
+  return current?.nextSibling ?? null;
+}
+
+/**
+ * Collect a heading and the content after it in document order, up to the
+ * next heading of the same or a higher level. Containers holding such a
+ * heading are entered rather than taken whole, so sections that cross
+ * wrapper elements (or end inside one) are cut at the right place.
+ */
+export function sectionNodes(heading: Element): AnyNode[] {
+  const level = headingLevel(heading) ?? 6;
+  const ends = (node: AnyNode) => (headingLevel(node) ?? 7) <= level;
+  const holdsEnd = (node: AnyNode): boolean =>
+    "children" in node && node.children.some((child) => ends(child) || holdsEnd(child));
+
+  const nodes: AnyNode[] = [heading];
+  let next = following(heading);
+  while (next && !ends(next)) {
+    if (holdsEnd(next)) {
+      next = "firstChild" in next && next.firstChild ? next.firstChild : following(next);
+      continue;
+    }
+    nodes.push(next);
+    next = following(next);
+  }
+  return nodes;
+}
+
+/**
+ * Find the ATX headings of a Markdown document, skipping fenced code blocks
+ */
+export function markdownHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+
+  markdown.split("\n").forEach((line, index) => {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+
+    const heading = !fence && line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading && heading[2]) {
+      headings.push({ level: heading[1].length, text: heading[2], line: index });
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Cut the section opened by heading `index` out of a Markdown document
+ */
+export function markdownSection(markdown: string, index: number): string {
+  const headings = markdownHeadings(markdown);
+  const { level, line } = headings[index];
+  const end = headings.slice(index + 1).find((heading) => heading.level <= level);
+  return markdown
+    .split("\n")
+    .slice(line, end?.line)
+    .join("\n")
+    .trim();
+}
@@ -0,0 +1,141 @@
+import type * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import type { TableData } from "../types.js";
+
+/**
+ * Extract text content from a cell, handling nested elements
+ */
+export function getCellText($: cheerio.CheerioAPI, cell: Element): string {
+  return $(cell).text().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Extract a single table as structured data. Headers come from <thead>, or
+ * from the first row if it has <th> cells; `cellContent` renders each cell
+ * (plain text by default).
+ */
+export function extractTable(
+  $: cheerio.CheerioAPI,
+  tableElement: Element,
+  cellContent: (cell: Element) => string = (cell) => getCellText($, cell)
+): TableData | null {
+  const $table = $(tableElement);
+
+  // Get caption if available
+  const caption = $table.find("caption").first().text().trim() || undefined;
+
+  // Extract headers
+  const headers: string[] = [];
+  const theadRow = $table.find("thead tr").first();
+  let usedFirstRowAsHeader = false;
+
+  if (theadRow.length > 0) {
+    // Headers from thead
+    theadRow.find("th, td").each((_, cell) => {
+      headers.push(cellContent(cell));
+    });
+  } else {
+    // Try first row as headers
+    const firstRow = $table.find("tr").first();
+    const firstRowCells = firstRow.find("th, td");
+
+    // Check if first row contains th elements or looks like a header
+    const hasThElements = firstRow.find("th").length > 0;
+
+    if (hasThElements) {
+      firstRowCells.each((_, cell) => {
+        headers.push(cellContent(cell));
+      });
+      usedFirstRowAsHeader = true;
+    } else {
+      // No clear headers, use empty headers
+      firstRowCells.each(() => {
+        headers.push("");
+      });
+    }
+  }
+
+  // Extract rows
+  const rows: string[][] = [];
+  const allRows = $table.find("tr");
+
+  // Skip the first row if we used it as headers (and there was no thead)
+  const startIndex = usedFirstRowAsHeader ? 1 : 0;
+
+  allRows.slice(startIndex).each((_, row) => {
+    const $row = $(row);
+    // Skip rows that are in thead
+    if ($row.parents("thead").length > 0) {
+      return;
+    }
+    const rowData: string[] = [];
+    $row
+      .find("td, th")
+      .each((_, cell) => {
+        rowData.push(cellContent(cell));
+      });
+    if (rowData.length > 0) {
+      rows.push(rowData);
+    }
+  });
+
+  // Skip tables with no meaningful content
+  if (rows.length === 0 && headers.every((h) => h === "")) {
+    return null;
+  }
+
+  // Normalize row lengths to match header count
+  const maxColumns = Math.max(
+    headers.length,
+    ...rows.map((row) => row.length)
+  );
+
+  // Pad headers if needed
+  while (headers.length < maxColumns) {
+    headers.push("");
+  }
+
+  // Pad rows if needed
+  const normalizedRows = rows.map((row) => {
+    while (row.length < maxColumns) {
+      row.push("");
+    }
+    return row;
+  });
+
+  return {
+    headers,
+    rows: normalizedRows,
+    caption,
+  };
+}
+
+/**
+ * Check if a table is likely a layout table (not data)
+ */
+export function isLayoutTable(
+  $: cheerio.CheerioAPI,
+  tableElement: Element
+): boolean {
+  const $table = $(tableElement);
+
+  // Check for role="presentation" or similar
+  const role = $table.attr("role");
+  if (role === "presentation" || role === "none") {
+    return true;
+  }
+
+  // Check for layout-related classes
+  const className = $table.attr("class") || "";
+  const layoutClasses = ["layout", "wrapper", "container", "frame"];
+  if (layoutClasses.some((cls) => className.toLowerCase().includes(cls))) {
+    return true;
+  }
+
+  // Tables nested too deeply are often layout tables
+  if ($table.parents("table").length > 1) {
+    return true;
+  }
+
+  return false;
+}
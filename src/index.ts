@@ -10,5 +10,7 @@ startHttpTransport({ port: 8080 });
 
 // Export for programmatic use
 export { createServer, createStandaloneServer } from "./server.js";
+export { configure, getConfig, loadConfig } from "./config.js";
+export type { ServerConfig } from "./config.js";
 export * from "./types.js";
 export * from "./tools/index.js";
@@ -0,0 +1,78 @@
+/**
+ * Thrown when a response body exceeds the configured size limit
+ */
+export class ResponseTooLargeError extends Error {
+  readonly maxBytes: number;
+
+  constructor(maxBytes: number) {
+    super(`Response body exceeds the limit of ${maxBytes} bytes`);
+    this.name = "ResponseTooLargeError";
+    this.maxBytes = maxBytes;
+  }
+}
+
+export interface LimitedBody {
+  bytes: Uint8Array;
+  truncated: boolean;
+}
+
+/**
+ * Read a response body stream chunk by chunk, stopping once `maxBytes` have
+ * been received. The stream yields bytes after content decoding, so the limit
+ * applies to the decompressed size and compression bombs are cut off early.
+ *
+ * @param truncate - Return the first `maxBytes` bytes instead of throwing
+ * @throws ResponseTooLargeError if the limit is exceeded and `truncate` is false
+ */
+export async function readBodyWithLimit(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number,
+  truncate: boolean
+): Promise<LimitedBody> {
+  if (!body) {
+    return { bytes: new Uint8Array(0), truncated: false };
+  }
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+  let complete = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        complete = true;
+        break;
+      }
+
+      if (received + value.byteLength > maxBytes) {
+        if (!truncate) {
+          throw new ResponseTooLargeError(maxBytes);
+        }
+        chunks.push(value.subarray(0, maxBytes - received));
+        received = maxBytes;
+        truncated = true;
+        break;
+      }
+
+      chunks.push(value);
+      received += value.byteLength;
+    }
+  } finally {
+    if (!complete) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, truncated };
+}
@@ -0,0 +1,392 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getConfig } from "../config.js";
+import type { RedirectHop } from "../types.js";
+
+/**
+ * A cached response, stored after the body has been read and size-checked
+ */
+export interface CacheEntry {
+  url: string;
+  final_url: string;
+  /** Redirects followed to reach `final_url` (absent in older entries) */
+  redirects?: RedirectHop[];
+  status: number;
+  /** Response headers as name/value pairs (names lower-cased) */
+  headers: Array<[string, string]>;
+  body: Uint8Array;
+  /** Request header values the response varies on */
+  vary: Record<string, string | null>;
+  /** Time the response was received or last revalidated (ms since epoch) */
+  stored_at: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Upper bound on heuristic freshness for responses without explicit expiry */
+const MAX_HEURISTIC_FRESHNESS_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory store that evicts the least recently used entries once either
+ * the entry count or total body size exceeds its limits
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly maxBytes: number
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    if (entry.body.byteLength > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.totalBytes += entry.body.byteLength;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+      this.totalBytes -= oldest.body.byteLength;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.entries.delete(key);
+      this.totalBytes -= existing.body.byteLength;
+    }
+  }
+}
+
+/**
+ * On-disk store keeping one JSON file per entry in a directory. Like the
+ * memory store it evicts the least recently used entries (by file
+ * modification time, which reads refresh) once either the entry count or the
+ * total size of its files exceeds its limits.
+ */
+export class DirectoryCacheStore implements CacheStore {
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries = Infinity,
+    private readonly maxBytes = Infinity
+  ) {}
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const path = this.pathFor(key);
+    try {
+      const stored = JSON.parse(await readFile(path, "utf-8"));
+      // Touch the file to mark it as most recently used
+      const now = new Date();
+      await utimes(path, now, now).catch(() => undefined);
+      return { ...stored, body: new Uint8Array(Buffer.from(stored.body, "base64")) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const path = this.pathFor(key);
+    const stored = JSON.stringify({ ...entry, body: Buffer.from(entry.body).toString("base64") });
+    if (Buffer.byteLength(stored) > this.maxBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, stored);
+    await this.evict(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  /**
+   * Remove the oldest files, other than `keep`, until the directory is
+   * within the limits
+   */
+  private async evict(keep: string): Promise<void> {
+    if (this.maxEntries === Infinity && this.maxBytes === Infinity) {
+      return;
+    }
+
+    const names = (await readdir(this.directory)).filter((name) => name.endsWith(".json"));
+    const files = (
+      await Promise.all(
+        names.map(async (name) => {
+          const path = join(this.directory, name);
+          const stats = await stat(path).catch(() => undefined);
+          return stats && { path, size: stats.size, mtimeMs: stats.mtimeMs };
+        })
+      )
+    ).filter((file) => file !== undefined);
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    let count = files.length;
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (count <= this.maxEntries && totalBytes <= this.maxBytes) {
+        break;
+      }
+      if (file.path === keep) {
+        continue;
+      }
+      await rm(file.path, { force: true });
+      count--;
+      totalBytes -= file.size;
+    }
+  }
+}
+
+let responseCache: CacheStore | null | undefined;
+
+/**
+ * Get the response cache configured for the server, or null if caching is
+ * disabled
+ */
+export function getResponseCache(): CacheStore | null {
+  if (responseCache === undefined) {
+    const config = getConfig();
+    switch (config.cacheStore) {
+      case "none":
+        responseCache = null;
+        break;
+      case "directory":
+        responseCache = new DirectoryCacheStore(
+          config.cacheDir,
+          config.cacheMaxEntries,
+          config.cacheMaxBytes
+        );
+        break;
+      default:
+        responseCache = new MemoryCacheStore(config.cacheMaxEntries, config.cacheMaxBytes);
+    }
+  }
+  return responseCache;
+}
+
+/**
+ * Replace the response cache (pass null to disable caching, or undefined to
+ * rebuild it from the configuration on next use)
+ */
+export function setResponseCache(store: CacheStore | null | undefined): void {
+  responseCache = store;
+}
+
+/**
+ * Parse a Cache-Control header into lower-cased directives
+ */
+export function parseCacheControl(value: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  for (const part of (value ?? "").split(",")) {
+    const [name, ...rest] = part.split("=");
+    const key = name.trim().toLowerCase();
+    if (key) {
+      directives.set(key, rest.length > 0 ? rest.join("=").trim().replace(/^"|"$/g, "") : true);
+    }
+  }
+  return directives;
+}
+
+/**
+ * Get a header from name/value pairs, joining repeated headers with commas
+ */
+export function headerValue(headers: Array<[string, string]>, name: string): string | null {
+  const values = headers.filter(([key]) => key === name).map(([, value]) => value);
+  return values.length > 0 ? values.join(", ") : null;
+}
+
+function parseDate(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Freshness lifetime in milliseconds (RFC 9111 §4.2.1): `max-age`, then
+ * `Expires` relative to `Date`, then 10% of the time since `Last-Modified`
+ */
+function freshnessLifetime(headers: Array<[string, string]>): number {
+  const cacheControl = parseCacheControl(headerValue(headers, "cache-control"));
+
+  const maxAge = cacheControl.get("max-age");
+  if (typeof maxAge === "string" && /^\d+$/.test(maxAge)) {
+    return parseInt(maxAge, 10) * 1000;
+  }
+
+  const date = parseDate(headerValue(headers, "date")) ?? Date.now();
+  const expiresHeader = headerValue(headers, "expires");
+  if (expiresHeader !== null) {
+    // Invalid Expires values (e.g. "0") mean already expired
+    const expires = parseDate(expiresHeader);
+    return expires === null ? 0 : Math.max(0, expires - date);
+  }
+
+  const lastModified = parseDate(headerValue(headers, "last-modified"));
+  if (lastModified !== null) {
+    return Math.min(Math.max(0, (date - lastModified) / 10), MAX_HEURISTIC_FRESHNESS_MS);
+  }
+
+  return 0;
+}
+
+/**
+ * Whether a cached entry can be served without contacting the origin
+ */
+export function isFresh(entry: CacheEntry, now = Date.now()): boolean {
+  const cacheControl = parseCacheControl(headerValue(entry.headers, "cache-control"));
+  if (cacheControl.has("no-cache")) {
+    return false;
+  }
+
+  const ageHeader = parseInt(headerValue(entry.headers, "age") ?? "0", 10);
+  const age =
+    (Number.isFinite(ageHeader) ? ageHeader * 1000 : 0) + Math.max(0, now - entry.stored_at);
+  return age < freshnessLifetime(entry.headers);
+}
+
+/**
+ * Whether a request may use the cache at all. The cache is shared by every
+ * client of the server and keyed by URL, so requests with headers of the
+ * caller's own bypass it: any of them (`X-Api-Key`, say) may be a credential.
+ */
+export function isCacheableRequest(callerHeaders: Record<string, string>): boolean {
+  return Object.keys(callerHeaders).length === 0;
+}
+
+/**
+ * Whether a response may be stored: a 200 that is not `no-store` or
+ * `private`, sets no cookies (the cache is shared between clients, cookie
+ * jars are not), does not vary on everything, and is either fresh for a
+ * while or revalidatable
+ */
+export function isCacheable(status: number, headers: Array<[string, string]>): boolean {
+  if (status !== 200 || headerValue(headers, "set-cookie") !== null) {
+    return false;
+  }
+
+  const cacheControl = parseCacheControl(headerValue(headers, "cache-control"));
+  if (cacheControl.has("no-store") || cacheControl.has("private")) {
+    return false;
+  }
+
+  if (headerValue(headers, "vary")?.split(",").some((name) => name.trim() === "*")) {
+    return false;
+  }
+
+  return (
+    freshnessLifetime(headers) > 0 ||
+    headerValue(headers, "etag") !== null ||
+    headerValue(headers, "last-modified") !== null
+  );
+}
+
+/**
+ * Record the request header values named by the response's Vary header
+ */
+export function varyValues(
+  responseHeaders: Array<[string, string]>,
+  requestHeaders: Record<string, string>
+): Record<string, string | null> {
+  const lowerRequest = new Map(
+    Object.entries(requestHeaders).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const vary: Record<string, string | null> = {};
+  for (const name of (headerValue(responseHeaders, "vary") ?? "").split(",")) {
+    const key = name.trim().toLowerCase();
+    if (key) {
+      vary[key] = lowerRequest.get(key) ?? null;
+    }
+  }
+  return vary;
+}
+
+/**
+ * Whether a request's headers select the same variant as a cached entry
+ */
+export function varyMatches(entry: CacheEntry, requestHeaders: Record<string, string>): boolean {
+  const current = varyValues(entry.headers, requestHeaders);
+  return Object.entries(entry.vary).every(([name, value]) => current[name] === value);
+}
+
+/**
+ * Conditional request headers for revalidating a cached entry
+ */
+export function revalidationHeaders(entry: CacheEntry): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const etag = headerValue(entry.headers, "etag");
+  const lastModified = headerValue(entry.headers, "last-modified");
+  if (etag) {
+    headers["If-None-Match"] = etag;
+  }
+  if (lastModified) {
+    headers["If-Modified-Since"] = lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Update a cached entry with the headers of a 304 Not Modified response
+ */
+export function refreshEntry(entry: CacheEntry, notModifiedHeaders: Array<[string, string]>): CacheEntry {
+  const updated = new Map<string, Array<[string, string]>>();
+  for (const pair of entry.headers) {
+    updated.set(pair[0], [...(updated.get(pair[0]) ?? []), pair]);
+  }
+  const replaced = new Set<string>();
+  for (const [name, value] of notModifiedHeaders) {
+    // Content framing headers describe the (empty) 304 body, not the entry;
+    // cookies belong to the client that revalidated, not to the shared entry
+    if (
+      name === "content-length" ||
+      name === "content-encoding" ||
+      name === "transfer-encoding" ||
+      name === "set-cookie"
+    ) {
+      continue;
+    }
+    if (!replaced.has(name)) {
+      updated.set(name, []);
+      replaced.add(name);
+    }
+    updated.get(name)!.push([name, value]);
+  }
+
+  return {
+    ...entry,
+    headers: [...updated.values()].flat(),
+    stored_at: Date.now(),
+  };
+}
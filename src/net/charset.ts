@@ -0,0 +1,138 @@
+import type { EncodingSource } from "../types.js";
+
+export interface DecodedBody {
+  text: string;
+  encoding: string;
+  encoding_source: EncodingSource;
+}
+
+/** Number of leading bytes scanned for `<meta charset>` declarations */
+const META_PRESCAN_BYTES = 4096;
+
+/** Byte order marks, checked longest first */
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xfe, 0xff], "utf-16be"],
+  [[0xff, 0xfe], "utf-16le"],
+];
+
+/**
+ * Normalize an encoding label to its canonical WHATWG name, or null if the
+ * label is not supported by the runtime's TextDecoder
+ */
+export function normalizeEncoding(label: string): string | null {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the charset parameter from a Content-Type header value
+ */
+function charsetFromContentType(contentType: string | null): string | null {
+  const match = contentType?.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Detect a byte order mark
+ */
+function sniffBom(bytes: Uint8Array): { encoding: string; length: number } | null {
+  for (const [bom, encoding] of BOMS) {
+    if (bom.every((byte, index) => bytes[index] === byte)) {
+      return { encoding, length: bom.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Look for `<meta charset>`, `<meta http-equiv="Content-Type">` or an XML
+ * declaration in the first few kilobytes of the document
+ */
+function sniffMetaCharset(bytes: Uint8Array): string | null {
+  // Encoding declarations are ASCII, so a single-byte decode is safe here
+  const head = Buffer.from(bytes.subarray(0, META_PRESCAN_BYTES)).toString("latin1");
+
+  const xmlDeclaration = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i);
+  if (xmlDeclaration) {
+    return xmlDeclaration[1];
+  }
+
+  const metaTags = head.replace(/<!--[\s\S]*?-->/g, "").match(/<meta\b[^>]*>/gi) ?? [];
+  for (const tag of metaTags) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i);
+    if (!charset) {
+      continue;
+    }
+    // A charset inside `content` only counts for http-equiv="Content-Type"
+    const isContentAttr = /\bcontent\s*=\s*["'][^"']*charset/i.test(tag);
+    if (isContentAttr && !/\bhttp-equiv\s*=\s*["']?content-type/i.test(tag)) {
+      continue;
+    }
+    return charset[1];
+  }
+
+  return null;
+}
+
+/**
+ * Guess the encoding when nothing declares it: valid UTF-8 is taken as
+ * UTF-8, anything else falls back to windows-1252 (the browser default for
+ * undeclared Western pages)
+ */
+function guessEncoding(bytes: Uint8Array, truncated: boolean): string {
+  try {
+    // Streaming mode tolerates a final sequence cut off by truncation
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: truncated });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Decode a response body, determining the encoding in the order a browser
+ * does: BOM, then the Content-Type charset, then an in-document declaration,
+ * then a heuristic.
+ *
+ * @param truncated - Whether the body was cut short, so an incomplete final
+ *   multi-byte sequence does not rule out UTF-8
+ */
+export function decodeBody(
+  bytes: Uint8Array,
+  contentType: string | null,
+  truncated = false
+): DecodedBody {
+  const decode = (encoding: string, source: EncodingSource, offset = 0): DecodedBody => ({
+    text: new TextDecoder(encoding).decode(bytes.subarray(offset)),
+    encoding,
+    encoding_source: source,
+  });
+
+  const bom = sniffBom(bytes);
+  if (bom) {
+    return decode(bom.encoding, "bom", bom.length);
+  }
+
+  const headerCharset = charsetFromContentType(contentType);
+  const headerEncoding = headerCharset ? normalizeEncoding(headerCharset) : null;
+  if (headerEncoding) {
+    return decode(headerEncoding, "content-type");
+  }
+
+  const metaCharset = sniffMetaCharset(bytes);
+  let metaEncoding = metaCharset ? normalizeEncoding(metaCharset) : null;
+  if (metaEncoding) {
+    // A UTF-16 declaration inside an ASCII-readable document is wrong by
+    // definition; browsers treat it as UTF-8
+    if (metaEncoding.startsWith("utf-16")) {
+      metaEncoding = "utf-8";
+    }
+    return decode(metaEncoding, "meta");
+  }
+
+  return decode(guessEncoding(bytes, truncated), "heuristic");
+}
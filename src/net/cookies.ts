@@ -0,0 +1,297 @@
+import { isIP } from "node:net";
+
+/**
+ * A stored cookie (RFC 6265 §5.3)
+ */
+export interface Cookie {
+  name: string;
+  value: string;
+  /** Domain the cookie is sent to (lower-cased, no leading dot) */
+  domain: string;
+  /** True if the cookie is only sent to `domain` itself, not its subdomains */
+  hostOnly: boolean;
+  path: string;
+  /** Expiry time in ms since epoch, or null for a session cookie */
+  expires: number | null;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  /** Creation time, kept when a cookie is replaced (orders the Cookie header) */
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * Thrown when a Set-Cookie value cannot be stored for the URL it came from
+ */
+export class CookieRejectedError extends Error {
+  constructor(
+    readonly cookieName: string,
+    reason: string
+  ) {
+    super(`Cookie ${cookieName || "(unnamed)"} rejected: ${reason}`);
+    this.name = "CookieRejectedError";
+  }
+}
+
+/** Most cookies kept per jar; the least recently used are evicted first */
+const MAX_COOKIES = 3000;
+
+/** Longest accepted name=value pair and attribute value (RFC 6265bis §5.6) */
+const MAX_COOKIE_BYTES = 4096;
+
+/**
+ * Default cookie path for a request URL (RFC 6265 §5.1.4): the URL path up
+ * to, but not including, its last "/"
+ */
+function defaultPath(url: URL): string {
+  const path = url.pathname;
+  if (!path.startsWith("/") || path.lastIndexOf("/") === 0) {
+    return "/";
+  }
+  return path.slice(0, path.lastIndexOf("/"));
+}
+
+/**
+ * Whether a host falls within a cookie domain (RFC 6265 §5.1.3)
+ */
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && !isIP(host));
+}
+
+/**
+ * Whether a request path falls within a cookie path (RFC 6265 §5.1.4)
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) {
+    return true;
+  }
+  return (
+    requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/")
+  );
+}
+
+function cookieHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+}
+
+/**
+ * Parse a Set-Cookie header received from `url` into a cookie
+ * (RFC 6265 §5.2 and §5.3)
+ *
+ * @throws CookieRejectedError if the cookie may not be set by `url`
+ */
+export function parseSetCookie(header: string, url: URL, now = Date.now()): Cookie {
+  const [pair, ...attributes] = header.split(";");
+  const separator = pair.indexOf("=");
+  if (separator === -1) {
+    throw new CookieRejectedError("", "missing '='");
+  }
+
+  const name = pair.slice(0, separator).trim();
+  const value = pair.slice(separator + 1).trim();
+  if (!name) {
+    throw new CookieRejectedError(name, "empty name");
+  }
+  if (name.length + value.length > MAX_COOKIE_BYTES) {
+    throw new CookieRejectedError(name, "name and value are too long");
+  }
+
+  const host = cookieHost(url);
+  let domain = "";
+  let path: string | null = null;
+  let expires: number | null = null;
+  let maxAge: number | null = null;
+  let secure = false;
+  let httpOnly = false;
+  let sameSite: Cookie["sameSite"];
+
+  for (const attribute of attributes) {
+    const equals = attribute.indexOf("=");
+    const key = (equals === -1 ? attribute : attribute.slice(0, equals)).trim().toLowerCase();
+    const attrValue = equals === -1 ? "" : attribute.slice(equals + 1).trim();
+    if (attrValue.length > MAX_COOKIE_BYTES) {
+      continue;
+    }
+
+    switch (key) {
+      case "expires": {
+        const time = Date.parse(attrValue);
+        if (!Number.isNaN(time)) {
+          expires = time;
+        }
+        break;
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(attrValue)) {
+          const seconds = parseInt(attrValue, 10);
+          maxAge = seconds <= 0 ? 0 : now + seconds * 1000;
+        }
+        break;
+      case "domain":
+        if (attrValue) {
+          domain = attrValue.replace(/^\./, "").toLowerCase();
+        }
+        break;
+      case "path":
+        path = attrValue.startsWith("/") ? attrValue : null;
+        break;
+      case "secure":
+        secure = true;
+        break;
+      case "httponly":
+        httpOnly = true;
+        break;
+      case "samesite": {
+        const normalized = attrValue.toLowerCase();
+        sameSite =
+          normalized === "strict" ? "Strict" : normalized === "none" ? "None" : "Lax";
+        break;
+      }
+    }
+  }
+
+  if (domain) {
+    if (!domainMatches(host, domain)) {
+      throw new CookieRejectedError(name, `domain ${domain} does not match ${host}`);
+    }
+    // Without a public suffix list, at least refuse cookies for a whole TLD
+    if (!domain.includes(".") && domain !== host) {
+      throw new CookieRejectedError(name, `domain ${domain} is a top-level domain`);
+    }
+  }
+  if (secure && url.protocol !== "https:") {
+    throw new CookieRejectedError(name, "Secure cookies can only be set over https");
+  }
+  if (sameSite === "None" && !secure) {
+    throw new CookieRejectedError(name, "SameSite=None requires Secure");
+  }
+  if (name.startsWith("__Secure-") && !secure) {
+    throw new CookieRejectedError(name, "__Secure- cookies must be Secure");
+  }
+  if (name.startsWith("__Host-") && (!secure || domain || path !== "/")) {
+    throw new CookieRejectedError(name, "__Host- cookies must be Secure, host-only and use Path=/");
+  }
+
+  return {
+    name,
+    value,
+    domain: domain || host,
+    hostOnly: !domain,
+    path: path ?? defaultPath(url),
+    // Max-Age takes precedence over Expires
+    expires: maxAge ?? expires,
+    secure,
+    httpOnly,
+    sameSite,
+    createdAt: now,
+    lastAccessed: now,
+  };
+}
+
+/**
+ * Cookie storage following the RFC 6265 domain, path, expiry and Secure
+ * rules. Every request a jar is used for is treated as a top-level
+ * navigation, so SameSite is recorded but does not restrict sending.
+ */
+export class CookieJar {
+  private cookies: Cookie[] = [];
+
+  private key(cookie: Pick<Cookie, "name" | "domain" | "path">): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`;
+  }
+
+  private removeExpired(now: number): void {
+    this.cookies = this.cookies.filter(
+      (cookie) => cookie.expires === null || cookie.expires > now
+    );
+  }
+
+  /**
+   * Store a cookie, replacing one with the same name, domain and path. An
+   * already-expired cookie deletes the one it replaces.
+   */
+  store(cookie: Cookie, now = Date.now()): void {
+    const key = this.key(cookie);
+    const existing = this.cookies.find((stored) => this.key(stored) === key);
+    this.cookies = this.cookies.filter((stored) => stored !== existing);
+
+    if (cookie.expires !== null && cookie.expires <= now) {
+      return;
+    }
+
+    this.cookies.push({ ...cookie, createdAt: existing?.createdAt ?? cookie.createdAt });
+    if (this.cookies.length > MAX_COOKIES) {
+      this.removeExpired(now);
+      this.cookies.sort((a, b) => a.lastAccessed - b.lastAccessed);
+      this.cookies.splice(0, this.cookies.length - MAX_COOKIES);
+    }
+  }
+
+  /**
+   * Store the cookies from a response's Set-Cookie headers. Cookies the URL
+   * may not set are ignored.
+   */
+  setCookies(headers: string[], url: URL, now = Date.now()): void {
+    for (const header of headers) {
+      try {
+        this.store(parseSetCookie(header, url, now), now);
+      } catch (error) {
+        if (!(error instanceof CookieRejectedError)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Cookies that would be sent with a request to `url`, most specific path
+   * first (RFC 6265 §5.4)
+   */
+  cookiesFor(url: URL, now = Date.now()): Cookie[] {
+    this.removeExpired(now);
+    const host = cookieHost(url);
+    return this.cookies
+      .filter(
+        (cookie) =>
+          (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+          pathMatches(url.pathname || "/", cookie.path) &&
+          (!cookie.secure || url.protocol === "https:")
+      )
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Cookie header value for a request to `url`, or an empty string
+   */
+  cookieHeader(url: URL, now = Date.now()): string {
+    const cookies = this.cookiesFor(url, now);
+    for (const cookie of cookies) {
+      cookie.lastAccessed = now;
+    }
+    return cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+  }
+
+  /**
+   * All unexpired cookies in the jar
+   */
+  list(now = Date.now()): Cookie[] {
+    this.removeExpired(now);
+    return [...this.cookies];
+  }
+
+  /**
+   * Remove cookies, either all of them or those whose domain matches
+   * `domain` (including its subdomains)
+   * @returns The number of cookies removed
+   */
+  clear(domain?: string): number {
+    const before = this.cookies.length;
+    const target = domain?.replace(/^\./, "").toLowerCase();
+    this.cookies = target
+      ? this.cookies.filter((cookie) => !domainMatches(cookie.domain, target))
+      : [];
+    return before - this.cookies.length;
+  }
+}
@@ -0,0 +1,104 @@
+import { getConfig, type CredentialProfile } from "../config.js";
+import { hostMatchesEntry } from "./ssrf.js";
+
+/** Replaces secret values in anything returned to the client */
+export const REDACTED = "[REDACTED]";
+
+/** Shorter secrets are not redacted, as they would match ordinary text */
+const MIN_REDACTED_LENGTH = 8;
+
+/** Request headers whose values are never written to recordings or archives */
+const SENSITIVE_HEADERS = new Set(["authorization", "proxy-authorization", "cookie"]);
+
+/**
+ * Look up a configured credential profile by name
+ */
+export function getCredentialProfile(name: string): CredentialProfile | undefined {
+  const profiles = getConfig().credentialProfiles;
+  return Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+}
+
+/**
+ * Names of the configured credential profiles
+ */
+export function credentialProfileNames(): string[] {
+  return Object.keys(getConfig().credentialProfiles);
+}
+
+/**
+ * Whether a profile may be sent to `url`: its host must match one of the
+ * profile's host patterns, and it must use https unless the profile allows
+ * plain http
+ */
+export function credentialsAllowed(profile: CredentialProfile, url: URL): boolean {
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && profile.allowHttp)) {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  return profile.hosts.some((pattern) => pattern === "*" || hostMatchesEntry(host, pattern));
+}
+
+/**
+ * The secrets long enough to redact, longest first so that a secret
+ * containing another is replaced whole
+ */
+function redactableSecrets(secrets: string[]): string[] {
+  return secrets
+    .filter((secret) => secret.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace every occurrence of the profile's secrets in a string
+ */
+function redactString(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * Replace a profile's secret values wherever they appear in a (JSON-like)
+ * value, e.g. a page that echoes the request headers back
+ */
+export function redactSecrets<T>(value: T, profile: CredentialProfile): T {
+  const secrets = redactableSecrets(profile.secrets);
+  if (secrets.length === 0) {
+    return value;
+  }
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      return redactString(current, secrets);
+    }
+    if (Array.isArray(current)) {
+      return current.map(visit);
+    }
+    if (current && typeof current === "object" && !(current instanceof Uint8Array)) {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, entry]) => [key, visit(entry)])
+      );
+    }
+    return current;
+  };
+  return visit(value) as T;
+}
+
+/**
+ * Request headers as written to fixtures and WARC files: credentials and
+ * cookies are replaced, as are values containing any configured credential
+ * profile's secrets
+ */
+export function redactRequestHeaders(headers: Array<[string, string]>): Array<[string, string]> {
+  const secrets = redactableSecrets(
+    Object.values(getConfig().credentialProfiles).flatMap((profile) => profile.secrets)
+  );
+  return headers.map(([name, value]) => [
+    name,
+    SENSITIVE_HEADERS.has(name.toLowerCase()) || secrets.some((secret) => value.includes(secret))
+      ? REDACTED
+      : value,
+  ]);
+}
@@ -0,0 +1,122 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+interface HostState {
+  active: number;
+  /** Earliest time the next request to this host may start */
+  nextStart: number;
+  waiting: Array<() => void>;
+}
+
+/**
+ * Per-origin request scheduler. Limits how many requests run against one
+ * origin at a time and spaces out their start times.
+ */
+export class HostScheduler {
+  private readonly hosts = new Map<string, HostState>();
+
+  /**
+   * Wait for a request slot for `origin`
+   *
+   * @param concurrency - Maximum simultaneous requests to the origin
+   * @param minDelayMs - Minimum time between the start of two requests
+   * @returns A function that frees the slot; calling it more than once is safe
+   */
+  async acquire(
+    origin: string,
+    concurrency: number,
+    minDelayMs: number,
+    signal?: AbortSignal
+  ): Promise<() => void> {
+    let state = this.hosts.get(origin);
+    if (!state) {
+      state = { active: 0, nextStart: 0, waiting: [] };
+      this.hosts.set(origin, state);
+    }
+
+    if (state.active < concurrency) {
+      state.active++;
+    } else {
+      await this.waitForSlot(state, signal);
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      // Hand the slot straight to the next waiter, if any
+      const next = state.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        state.active--;
+        this.forgetIfIdle(origin, state);
+      }
+    };
+
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + minDelayMs;
+
+    if (start > now) {
+      try {
+        await sleep(start - now, undefined, { signal });
+      } catch (error) {
+        release();
+        throw error;
+      }
+    }
+
+    return release;
+  }
+
+  /**
+   * Drop an origin's state once nothing runs or waits and its next start
+   * time has passed, so the map only holds origins in use
+   */
+  private forgetIfIdle(origin: string, state: HostState): void {
+    if (state.active > 0 || state.waiting.length > 0 || this.hosts.get(origin) !== state) {
+      return;
+    }
+    const wait = state.nextStart - Date.now();
+    if (wait > 0) {
+      setTimeout(() => this.forgetIfIdle(origin, state), wait).unref();
+    } else {
+      this.hosts.delete(origin);
+    }
+  }
+
+  private waitForSlot(state: HostState, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        state.waiting.splice(state.waiting.indexOf(grant), 1);
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+
+      state.waiting.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+let hostScheduler: HostScheduler | undefined;
+
+/**
+ * Shared scheduler used for every outbound request
+ */
+export function getHostScheduler(): HostScheduler {
+  if (!hostScheduler) {
+    hostScheduler = new HostScheduler();
+  }
+  return hostScheduler;
+}
@@ -0,0 +1,125 @@
+import { ProxyAgent, type Dispatcher } from "undici";
+import { getConfig } from "../config.js";
+import { assertProxiedUrlAllowed, getGuardedAgent, hostMatchesEntry } from "./ssrf.js";
+
+/**
+ * How a request is sent: the dispatcher to use and, when it goes through a
+ * proxy, the proxy URL with any credentials removed
+ */
+export interface Route {
+  dispatcher: Dispatcher;
+  proxy?: string;
+}
+
+/**
+ * Thrown when a configured proxy URL cannot be used
+ */
+export class InvalidProxyError extends Error {
+  constructor(reason: string) {
+    super(`Invalid proxy configuration: ${reason}`);
+    this.name = "InvalidProxyError";
+  }
+}
+
+function defaultPort(url: URL): string {
+  return url.port || (url.protocol === "https:" ? "443" : "80");
+}
+
+/**
+ * Check a host against a PROXY_RULES pattern: an exact hostname, a
+ * `*.suffix` wildcard (subdomains only) or `*`
+ */
+function ruleMatches(host: string, pattern: string): boolean {
+  return pattern === "*" || hostMatchesEntry(host, pattern);
+}
+
+/**
+ * Check a URL against a NO_PROXY entry, following the common curl
+ * conventions: `example.com` and `.example.com` cover the domain and its
+ * subdomains, `host:port` only that port, and `*` every host
+ */
+function noProxyMatches(url: URL, entry: string): boolean {
+  if (entry === "*") {
+    return true;
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  let pattern = entry.toLowerCase();
+  const withPort = /^(\[.*\]|[^:]*):(\d+)$/.exec(pattern);
+  if (withPort) {
+    if (withPort[2] !== defaultPort(url)) {
+      return false;
+    }
+    pattern = withPort[1];
+  }
+  pattern = pattern.replace(/^\[(.*)\]$/, "$1").replace(/^\*?\./, "");
+
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
+
+/**
+ * Pick the proxy for a URL: the first matching PROXY_RULES entry, otherwise
+ * HTTP_PROXY / HTTPS_PROXY by scheme unless NO_PROXY covers the host
+ * @returns The proxy URL, or null to connect directly
+ */
+export function selectProxy(url: URL): string | null {
+  const config = getConfig();
+  const host = url.hostname.toLowerCase();
+
+  const rule = config.proxyRules.find((candidate) => ruleMatches(host, candidate.pattern));
+  if (rule) {
+    return rule.proxy;
+  }
+  if (config.noProxy.some((entry) => noProxyMatches(url, entry))) {
+    return null;
+  }
+  return (url.protocol === "https:" ? config.httpsProxy : config.httpProxy) || null;
+}
+
+/**
+ * Proxy URL as recorded in response metadata, without credentials
+ */
+export function redactProxy(proxy: URL): string {
+  return `${proxy.protocol}//${proxy.host}`;
+}
+
+const proxyAgents = new Map<string, ProxyAgent>();
+
+/**
+ * Shared agent for a proxy. Plain-http URLs are forwarded to the proxy
+ * as-is; https URLs are tunnelled with CONNECT. Credentials in the proxy URL
+ * are sent as Basic Proxy-Authorization.
+ */
+function getProxyAgent(proxy: URL): ProxyAgent {
+  let agent = proxyAgents.get(proxy.href);
+  if (!agent) {
+    agent = new ProxyAgent({ uri: proxy.href, proxyTunnel: false });
+    proxyAgents.set(proxy.href, agent);
+  }
+  return agent;
+}
+
+/**
+ * Decide how to send a request to `url`. Proxied URLs are checked against
+ * the private-network guard here, since their hostnames are resolved by the
+ * proxy rather than by `guardedLookup`.
+ */
+export async function resolveRoute(url: URL): Promise<Route> {
+  const selected = selectProxy(url);
+  if (!selected) {
+    return { dispatcher: getGuardedAgent() };
+  }
+
+  let proxy: URL;
+  try {
+    proxy = new URL(selected);
+  } catch {
+    throw new InvalidProxyError(`cannot parse the proxy URL for ${url.hostname}`);
+  }
+  if (proxy.protocol !== "http:" && proxy.protocol !== "https:") {
+    throw new InvalidProxyError(`unsupported proxy scheme ${proxy.protocol} (use http or https)`);
+  }
+
+  await assertProxiedUrlAllowed(url);
+  return { dispatcher: getProxyAgent(proxy), proxy: redactProxy(proxy) };
+}
@@ -0,0 +1,379 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  fetch,
+  FormData,
+  Headers,
+  Response as UndiciResponse,
+  type RequestInit,
+} from "undici";
+import { getConfig } from "../config.js";
+import { readBodyWithLimit } from "./body.js";
+import { redactRequestHeaders } from "./credentials.js";
+import { WIRE_ENCODING_HEADERS } from "./warc.js";
+
+/**
+ * Thrown in replay mode when no recorded response matches a request
+ */
+export class ReplayMissError extends Error {
+  constructor(
+    readonly method: string,
+    readonly url: string,
+    readonly fixtures: string
+  ) {
+    super(`No recorded response for ${method} ${url} in ${fixtures}`);
+    this.name = "ReplayMissError";
+  }
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * A recorded request/response pair, as a HAR 1.2 entry (only the fields
+ * needed to replay it are read back)
+ */
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: -1;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: {
+      size: number;
+      mimeType: string;
+      text: string;
+      encoding?: "base64";
+      /** Set when the body was cut at the recording call's max_bytes */
+      _truncated?: boolean;
+    };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+/**
+ * Where recorded exchanges are kept: a directory with one HAR entry per file,
+ * or a single HAR file
+ */
+interface FixtureStore {
+  entries(): HarEntry[];
+  add(entry: HarEntry): void;
+}
+
+/** Statuses whose responses cannot have a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Recorded and replayed responses whose body was cut at a size limit */
+const truncatedResponses = new WeakSet<UndiciResponse>();
+
+/**
+ * Whether a response was recorded (or is replayed) with only the start of
+ * its body, the rest being over the recording call's size limit
+ */
+export function isTruncatedRecording(response: UndiciResponse): boolean {
+  return truncatedResponses.has(response);
+}
+
+/**
+ * Body of an outbound request as text, for matching and recording. Form
+ * fields are encoded as a query string so multipart boundaries do not
+ * affect matching.
+ */
+function requestBodyText(body: RequestInit["body"]): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === "string") {
+    return body;
+  }
+  if (body instanceof URLSearchParams) {
+    return body.toString();
+  }
+  if (body instanceof FormData) {
+    const fields = [...body.entries()].map(
+      ([name, value]): [string, string] => [name, String(value)]
+    );
+    return new URLSearchParams(fields).toString();
+  }
+  throw new Error("Unsupported request body type for recording");
+}
+
+function matchKey(method: string, url: string, body: string | undefined): string {
+  return `${method} ${url}\n${body ?? ""}`;
+}
+
+function entryKey(entry: HarEntry): string {
+  return matchKey(entry.request.method, entry.request.url, entry.request.postData?.text);
+}
+
+/**
+ * One HAR entry per JSON file, named after the host and a hash of the
+ * request so recordings of the same request sort in order
+ */
+class DirectoryFixtureStore implements FixtureStore {
+  private loaded?: HarEntry[];
+
+  constructor(private readonly dir: string) {}
+
+  entries(): HarEntry[] {
+    if (!this.loaded) {
+      this.loaded = existsSync(this.dir)
+        ? readdirSync(this.dir, { recursive: true, encoding: "utf-8" })
+            .filter((file) => file.endsWith(".json"))
+            .sort()
+            .map((file) => JSON.parse(readFileSync(join(this.dir, file), "utf-8")) as HarEntry)
+        : [];
+    }
+    return this.loaded;
+  }
+
+  add(entry: HarEntry): void {
+    const key = entryKey(entry);
+    const sequence = this.entries().filter((existing) => entryKey(existing) === key).length;
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 12);
+    const { host } = new URL(entry.request.url);
+    const file = join(
+      this.dir,
+      host.replace(/[^a-zA-Z0-9.-]/g, "_"),
+      `${entry.request.method.toLowerCase()}-${hash}-${String(sequence).padStart(3, "0")}.json`
+    );
+
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, `${JSON.stringify(entry, null, 2)}\n`);
+    this.entries().push(entry);
+  }
+}
+
+/**
+ * All entries in one HAR 1.2 file, rewritten after every recording
+ */
+class HarFixtureStore implements FixtureStore {
+  private loaded?: HarEntry[];
+
+  constructor(private readonly file: string) {}
+
+  entries(): HarEntry[] {
+    if (!this.loaded) {
+      this.loaded = existsSync(this.file)
+        ? ((JSON.parse(readFileSync(this.file, "utf-8")).log?.entries ?? []) as HarEntry[])
+        : [];
+    }
+    return this.loaded;
+  }
+
+  add(entry: HarEntry): void {
+    this.entries().push(entry);
+    const har = {
+      log: {
+        version: "1.2",
+        creator: { name: "webpage-extract", version: "1.0.0" },
+        entries: this.entries(),
+      },
+    };
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify(har, null, 2)}\n`);
+  }
+}
+
+const stores = new Map<string, FixtureStore>();
+
+/** How many times each request has been replayed, per fixture path */
+const replayCounts = new Map<string, Map<string, number>>();
+
+function getFixtureStore(path: string): FixtureStore {
+  let store = stores.get(path);
+  if (!store) {
+    store = path.endsWith(".har") ? new HarFixtureStore(path) : new DirectoryFixtureStore(path);
+    stores.set(path, store);
+  }
+  return store;
+}
+
+/**
+ * Forget loaded fixtures and replay positions (used by tests)
+ */
+export function resetFixtureStores(): void {
+  stores.clear();
+  replayCounts.clear();
+}
+
+/**
+ * Store a body as text when it is valid UTF-8, otherwise as base64
+ */
+function encodeContent(bytes: Uint8Array): { text: string; encoding?: "base64" } {
+  try {
+    // Keep a byte order mark, so charset detection sees the same bytes
+    return { text: new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(bytes) };
+  } catch {
+    return { text: Buffer.from(bytes).toString("base64"), encoding: "base64" };
+  }
+}
+
+/**
+ * Fetch a request from the network and save the exchange. The body is read
+ * up to `maxBytes` and handed back as a new response; a longer body is
+ * recorded (and replayed) as truncated.
+ */
+async function record(
+  store: FixtureStore,
+  url: URL,
+  init: RequestInit,
+  maxBytes: number
+): Promise<UndiciResponse> {
+  const startedAt = new Date();
+  const response = await fetch(url, init);
+  const { bytes, truncated } = await readBodyWithLimit(response.body, maxBytes, true);
+  const requestBody = requestBodyText(init.body);
+  const requestType = new Headers(init.headers).get("content-type");
+  // The body is stored decoded, so the headers describing its wire encoding
+  // are kept aside and Content-Length is made to match
+  const headers = [...response.headers].map(([name, value]) => ({
+    name: WIRE_ENCODING_HEADERS.has(name) ? `x-archive-orig-${name}` : name,
+    value,
+  }));
+  if (!NULL_BODY_STATUSES.has(response.status) && init.method !== "HEAD") {
+    headers.push({ name: "content-length", value: String(bytes.byteLength) });
+  }
+
+  store.add({
+    startedDateTime: startedAt.toISOString(),
+    time: Date.now() - startedAt.getTime(),
+    request: {
+      method: init.method ?? "GET",
+      url: url.href,
+      httpVersion: "HTTP/1.1",
+      headers: redactRequestHeaders([...new Headers(init.headers)]).map(([name, value]) => ({
+        name,
+        value,
+      })),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: requestBody === undefined ? 0 : Buffer.byteLength(requestBody),
+      ...(requestBody !== undefined && {
+        postData: { mimeType: requestType ?? "", text: requestBody },
+      }),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: "HTTP/1.1",
+      headers,
+      cookies: [],
+      content: {
+        size: bytes.byteLength,
+        mimeType: response.headers.get("content-type") ?? "",
+        ...encodeContent(bytes),
+        ...(truncated && { _truncated: true }),
+      },
+      redirectURL: response.headers.get("location") ?? "",
+      headersSize: -1,
+      bodySize: bytes.byteLength,
+    },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+  });
+
+  return toResponse(response.status, response.statusText, headers, bytes, truncated);
+}
+
+function toResponse(
+  status: number,
+  statusText: string,
+  headers: HarHeader[],
+  bytes: Uint8Array,
+  truncated = false
+): UndiciResponse {
+  const responseHeaders = new Headers();
+  for (const { name, value } of headers) {
+    responseHeaders.append(name, value);
+  }
+  const response = new UndiciResponse(NULL_BODY_STATUSES.has(status) ? null : bytes, {
+    status,
+    statusText,
+    headers: responseHeaders,
+  });
+  if (truncated) {
+    truncatedResponses.add(response);
+  }
+  return response;
+}
+
+/**
+ * Serve a request from the fixtures. Recordings of the same request are
+ * served in the order they were made; the last one is repeated after that.
+ *
+ * @throws ReplayMissError if nothing was recorded for the request
+ */
+function replay(store: FixtureStore, path: string, url: URL, init: RequestInit): UndiciResponse {
+  const method = init.method ?? "GET";
+  const key = matchKey(method, url.href, requestBodyText(init.body));
+  const matches = store.entries().filter((entry) => entryKey(entry) === key);
+  if (matches.length === 0) {
+    throw new ReplayMissError(method, url.href, path);
+  }
+
+  let counts = replayCounts.get(path);
+  if (!counts) {
+    counts = new Map();
+    replayCounts.set(path, counts);
+  }
+  const served = counts.get(key) ?? 0;
+  counts.set(key, served + 1);
+
+  const { response } = matches[Math.min(served, matches.length - 1)];
+  const { text, encoding } = response.content;
+  const bytes =
+    encoding === "base64" ? new Uint8Array(Buffer.from(text, "base64")) : new TextEncoder().encode(text);
+  return toResponse(
+    response.status,
+    response.statusText,
+    response.headers,
+    bytes,
+    response.content._truncated === true
+  );
+}
+
+/**
+ * Send one HTTP request (no redirect following) according to FETCH_MODE:
+ * `live` goes to the network, `record` also saves the exchange under
+ * FIXTURES_PATH, and `replay` serves it from there without any network
+ * access. Response bodies are recorded after content decoding, up to
+ * `maxBytes` (the caller's limit, by default the server's).
+ */
+export async function sendRequest(
+  url: URL,
+  init: RequestInit,
+  maxBytes = getConfig().maxResponseBytes
+): Promise<UndiciResponse> {
+  const { fetchMode, fixturesPath } = getConfig();
+  switch (fetchMode) {
+    case "replay":
+      return replay(getFixtureStore(fixturesPath), fixturesPath, url, init);
+    case "record":
+      return record(getFixtureStore(fixturesPath), url, init, maxBytes);
+    default:
+      return fetch(url, init);
+  }
+}
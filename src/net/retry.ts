@@ -0,0 +1,62 @@
+/**
+ * Network error codes worth retrying: the connection was reset or dropped
+ * before a response arrived
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Whether an HTTP status indicates a transient upstream failure
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501 && status !== 505);
+}
+
+/**
+ * Whether a fetch error (or any error in its cause chain) is a transient
+ * connection failure
+ */
+export function isRetryableError(error: unknown): boolean {
+  let current = error;
+  while (current instanceof Error) {
+    const code = (current as NodeJS.ErrnoException).code;
+    if (code && RETRYABLE_ERROR_CODES.has(code)) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP-date) into
+ * milliseconds from `now`. Returns null if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * `baseMs * 2^retry`, capped at `maxMs`
+ */
+export function backoffDelay(retry: number, baseMs: number, maxMs: number): number {
+  return Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** retry));
+}
@@ -0,0 +1,279 @@
+import { getConfig } from "../config.js";
+import { assertUrlAllowed, findBlockedDestination } from "./ssrf.js";
+import { resolveRoute } from "./proxy.js";
+import { ReplayMissError, sendRequest } from "./replay.js";
+import { readBodyWithLimit } from "./body.js";
+
+/**
+ * Rules from a robots.txt file, resolved for one user agent
+ */
+export interface RobotsRules {
+  /** Whether a URL path (including query string) may be fetched */
+  isAllowed(pathAndQuery: string): boolean;
+  /** Crawl-delay for the user agent in milliseconds (0 if unset) */
+  crawlDelayMs: number;
+  /** Set when robots.txt could not be retrieved and everything is disallowed */
+  unavailableReason?: string;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/** robots.txt files larger than this are truncated (RFC 9309 §2.5) */
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/** Redirects followed when fetching robots.txt (RFC 9309 §2.3.1.2) */
+const MAX_ROBOTS_REDIRECTS = 5;
+
+/** How long fetched robots.txt files are reused */
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** How long an unreachable robots.txt is remembered before trying again */
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000;
+
+/** Upper bound on honoured Crawl-delay values */
+const MAX_CRAWL_DELAY_MS = 30 * 1000;
+
+/**
+ * Compile a robots.txt path pattern (`*` wildcard, `$` end anchor)
+ */
+function compilePattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parse robots.txt into groups of rules
+ */
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ allow: key === "allow", pattern: value, regex: compilePattern(value) });
+    } else if (key === "crawl-delay") {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelay = seconds;
+      }
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Get the product token robots.txt groups are matched against, e.g.
+ * "webpage-extract" for "webpage-extract/1.0.0"
+ */
+export function productToken(userAgent: string): string {
+  return userAgent.split(/[/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Parse robots.txt and resolve the rules that apply to `userAgent`. Groups
+ * naming the agent's product token take precedence over `*`; among matching
+ * rules the longest pattern wins, and Allow wins a tie (RFC 9309 §2.2.2).
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups = parseGroups(text);
+  const token = productToken(userAgent);
+
+  let selected = groups.filter((group) => group.agents.includes(token));
+  if (selected.length === 0) {
+    selected = groups.filter((group) => group.agents.includes("*"));
+  }
+
+  const rules = selected.flatMap((group) => group.rules);
+  const crawlDelay = selected.find((group) => group.crawlDelay !== undefined)?.crawlDelay ?? 0;
+
+  return {
+    crawlDelayMs: Math.min(crawlDelay * 1000, MAX_CRAWL_DELAY_MS),
+    isAllowed(pathAndQuery: string): boolean {
+      if (pathAndQuery === "/robots.txt") {
+        return true;
+      }
+
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(pathAndQuery)) {
+          continue;
+        }
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+/**
+ * Rules used when robots.txt is unreachable: everything is disallowed
+ */
+function disallowAll(reason: string): RobotsRules {
+  return {
+    crawlDelayMs: 0,
+    unavailableReason: reason,
+    isAllowed: (pathAndQuery) => pathAndQuery === "/robots.txt",
+  };
+}
+
+/**
+ * Fetch and parse robots.txt for an origin. A missing file (4xx, or a
+ * redirect past the limit) allows everything; a server or network error
+ * disallows everything
+ * (RFC 9309 §2.3.1). The fetch is shared by concurrent callers, so it runs
+ * under the default timeout rather than any one caller's signal.
+ */
+async function loadRobotsTxt(
+  origin: string,
+  userAgent: string
+): Promise<{ rules: RobotsRules; ttl: number }> {
+  let url = new URL("/robots.txt", origin);
+  const signal = AbortSignal.timeout(getConfig().defaultTimeoutMs);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertUrlAllowed(url);
+      const { dispatcher } = await resolveRoute(url);
+      const response = await sendRequest(url, {
+        headers: { "User-Agent": userAgent },
+        redirect: "manual",
+        signal,
+        dispatcher,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location && redirects < MAX_ROBOTS_REDIRECTS) {
+        await response.body?.cancel();
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        const { bytes } = await readBodyWithLimit(response.body, MAX_ROBOTS_BYTES, true);
+        return { rules: parseRobotsTxt(new TextDecoder().decode(bytes), userAgent), ttl: ROBOTS_TTL_MS };
+      }
+
+      await response.body?.cancel();
+      // Too many redirects, or one with nowhere to go, leave robots.txt
+      // unavailable, like a 4xx (RFC 9309 §2.3.1.2)
+      if (response.status >= 300 && response.status < 500) {
+        return { rules: parseRobotsTxt("", userAgent), ttl: ROBOTS_TTL_MS };
+      }
+      return {
+        rules: disallowAll(`robots.txt returned HTTP ${response.status}`),
+        ttl: ROBOTS_ERROR_TTL_MS,
+      };
+    }
+  } catch (error) {
+    if (findBlockedDestination(error) || error instanceof ReplayMissError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "unknown error";
+    return { rules: disallowAll(`robots.txt could not be fetched: ${message}`), ttl: ROBOTS_ERROR_TTL_MS };
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with the signal's reason once it aborts
+ */
+function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+const robotsCache = new Map<string, { rules: Promise<RobotsRules>; expires: number }>();
+
+/**
+ * Get the robots.txt rules for a URL's origin, fetching and caching them on
+ * first use. Concurrent callers share a single fetch; a caller's `signal`
+ * only stops that caller waiting for it.
+ */
+export async function getRobotsRules(
+  url: URL,
+  userAgent: string,
+  signal?: AbortSignal
+): Promise<RobotsRules> {
+  const key = `${url.origin} ${userAgent}`;
+  const cached = robotsCache.get(key);
+  if (cached && cached.expires > Date.now()) {
+    return raceSignal(cached.rules, signal);
+  }
+
+  const rules = loadRobotsTxt(url.origin, userAgent).then(
+    (loaded) => {
+      robotsCache.set(key, { rules: Promise.resolve(loaded.rules), expires: Date.now() + loaded.ttl });
+      return loaded.rules;
+    },
+    (error) => {
+      robotsCache.delete(key);
+      throw error;
+    }
+  );
+  robotsCache.set(key, { rules, expires: Infinity });
+  return raceSignal(rules, signal);
+}
+
+/**
+ * Forget all cached robots.txt files
+ */
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
@@ -0,0 +1,89 @@
+import type { ToolContext } from "../types.js";
+import { CookieJar } from "./cookies.js";
+
+/**
+ * Context used when tools are called directly rather than through a
+ * transport (e.g. when the package is used as a library)
+ */
+export const LOCAL_CONTEXT: ToolContext = { clientId: "local" };
+
+/** Named sessions kept per client; the least recently used are dropped */
+const MAX_SESSIONS_PER_CLIENT = 16;
+
+/** Clients whose sessions have not been used for this long are forgotten */
+const CLIENT_IDLE_TTL_MS = 60 * 60 * 1000;
+
+interface ClientSessions {
+  jars: Map<string, CookieJar>;
+  lastUsed: number;
+}
+
+const clients = new Map<string, ClientSessions>();
+
+/**
+ * Drop the sessions of clients that have been idle too long
+ */
+function pruneIdleClients(now: number): void {
+  for (const [clientId, sessions] of clients) {
+    if (now - sessions.lastUsed > CLIENT_IDLE_TTL_MS) {
+      clients.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Get the cookie jar of a client's named session. Sessions are scoped to
+ * the client, so two clients using the same name get separate jars.
+ *
+ * @param create - Create the session if it does not exist yet
+ */
+export function getSessionJar(clientId: string, name: string, create: true): CookieJar;
+export function getSessionJar(clientId: string, name: string, create?: boolean): CookieJar | undefined;
+export function getSessionJar(clientId: string, name: string, create = false): CookieJar | undefined {
+  const now = Date.now();
+  pruneIdleClients(now);
+
+  let sessions = clients.get(clientId);
+  if (!sessions) {
+    if (!create) {
+      return undefined;
+    }
+    sessions = { jars: new Map(), lastUsed: now };
+    clients.set(clientId, sessions);
+  }
+  sessions.lastUsed = now;
+
+  let jar = sessions.jars.get(name);
+  if (jar) {
+    // Re-insert to mark as most recently used
+    sessions.jars.delete(name);
+  } else if (create) {
+    jar = new CookieJar();
+  } else {
+    return undefined;
+  }
+  sessions.jars.set(name, jar);
+
+  for (const oldest of sessions.jars.keys()) {
+    if (sessions.jars.size <= MAX_SESSIONS_PER_CLIENT) {
+      break;
+    }
+    sessions.jars.delete(oldest);
+  }
+  return jar;
+}
+
+/**
+ * Forget a client's named session
+ * @returns Whether the session existed
+ */
+export function deleteSession(clientId: string, name: string): boolean {
+  return clients.get(clientId)?.jars.delete(name) ?? false;
+}
+
+/**
+ * Forget every session (used by tests)
+ */
+export function clearSessions(): void {
+  clients.clear();
+}
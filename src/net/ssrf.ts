@@ -0,0 +1,351 @@
+import {
+  lookup as dnsLookup,
+  promises as dnsPromises,
+  type LookupAddress,
+  type LookupOptions,
+} from "node:dns";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+import { getConfig } from "../config.js";
+
+/**
+ * Thrown when a request targets a private, loopback, link-local or otherwise
+ * non-public address that is not covered by the configured allowlist
+ */
+export class BlockedDestinationError extends Error {
+  readonly hostname: string;
+  readonly address?: string;
+
+  constructor(hostname: string, address?: string, reason?: string) {
+    super(
+      `Destination ${hostname}${address && address !== hostname ? ` (${address})` : ""} is not allowed: ${reason ?? "non-public address"}`
+    );
+    this.name = "BlockedDestinationError";
+    this.hostname = hostname;
+    this.address = address;
+  }
+}
+
+/**
+ * Find a BlockedDestinationError thrown directly or wrapped as the cause of
+ * a fetch failure
+ */
+export function findBlockedDestination(error: unknown): BlockedDestinationError | null {
+  let current = error;
+  while (current instanceof Error) {
+    if (current instanceof BlockedDestinationError) {
+      return current;
+    }
+    current = current.cause;
+  }
+  return null;
+}
+
+interface AddressRange {
+  bytes: number[];
+  prefix: number;
+  label: string;
+}
+
+/**
+ * IPv4 ranges that are never reachable on the public internet
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number, string]> = [
+  ["0.0.0.0", 8, "unspecified"],
+  ["10.0.0.0", 8, "private"],
+  ["100.64.0.0", 10, "carrier-grade NAT"],
+  ["127.0.0.0", 8, "loopback"],
+  ["169.254.0.0", 16, "link-local"],
+  ["172.16.0.0", 12, "private"],
+  ["192.0.0.0", 24, "IETF protocol assignments"],
+  ["192.0.2.0", 24, "documentation"],
+  ["192.88.99.0", 24, "6to4 relay anycast"],
+  ["192.168.0.0", 16, "private"],
+  ["198.18.0.0", 15, "benchmarking"],
+  ["198.51.100.0", 24, "documentation"],
+  ["203.0.113.0", 24, "documentation"],
+  ["224.0.0.0", 4, "multicast"],
+  ["240.0.0.0", 4, "reserved"],
+];
+
+/**
+ * IPv6 ranges that are never reachable on the public internet. Ranges that
+ * embed an IPv4 address (mapped, NAT64, 6to4) are handled separately.
+ */
+const BLOCKED_IPV6_RANGES: Array<[string, number, string]> = [
+  ["::", 128, "unspecified"],
+  ["::1", 128, "loopback"],
+  ["100::", 64, "discard-only"],
+  ["2001:db8::", 32, "documentation"],
+  ["fc00::", 7, "unique local"],
+  ["fe80::", 10, "link-local"],
+  ["fec0::", 10, "site-local"],
+  ["ff00::", 8, "multicast"],
+];
+
+/**
+ * Parse a dotted-quad IPv4 address into bytes
+ */
+function ipv4ToBytes(address: string): number[] {
+  return address.split(".").map((part) => parseInt(part, 10));
+}
+
+/**
+ * Expand an IPv6 address (including `::` compression and a trailing
+ * dotted-quad) into 16 bytes
+ */
+function ipv6ToBytes(address: string): number[] {
+  let text = address.split("%")[0];
+  let tail: number[] = [];
+
+  const lastColon = text.lastIndexOf(":");
+  if (text.slice(lastColon + 1).includes(".")) {
+    tail = ipv4ToBytes(text.slice(lastColon + 1));
+    text = text.slice(0, lastColon + 1) + "0:0";
+  }
+
+  const [head, rest] = text.includes("::") ? text.split("::") : [text, undefined];
+  const headGroups = head ? head.split(":") : [];
+  const restGroups = rest ? rest.split(":") : [];
+  const missing = 8 - headGroups.length - restGroups.length;
+  const groups = [
+    ...headGroups,
+    ...(rest !== undefined ? new Array(missing).fill("0") : []),
+    ...restGroups,
+  ];
+
+  const bytes: number[] = [];
+  for (const group of groups) {
+    const value = parseInt(group || "0", 16);
+    bytes.push((value >> 8) & 0xff, value & 0xff);
+  }
+
+  if (tail.length === 4) {
+    bytes.splice(12, 4, ...tail);
+  }
+  return bytes;
+}
+
+function toRanges(ranges: Array<[string, number, string]>, v6: boolean): AddressRange[] {
+  return ranges.map(([address, prefix, label]) => ({
+    bytes: v6 ? ipv6ToBytes(address) : ipv4ToBytes(address),
+    prefix,
+    label,
+  }));
+}
+
+const IPV4_RANGES = toRanges(BLOCKED_IPV4_RANGES, false);
+const IPV6_RANGES = toRanges(BLOCKED_IPV6_RANGES, true);
+
+/**
+ * Check whether the first `prefix` bits of two byte arrays match
+ */
+function prefixMatches(bytes: number[], range: number[], prefix: number): boolean {
+  for (let bit = 0; bit < prefix; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    if ((bytes[byte] & mask) !== (range[byte] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Extract an IPv4 address embedded in an IPv6 address: IPv4-mapped
+ * (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d), NAT64 (64:ff9b::/96)
+ * and 6to4 (2002::/16)
+ */
+function embeddedIpv4(bytes: number[]): number[] | null {
+  const zeroPrefix = bytes.slice(0, 10).every((b) => b === 0);
+  if (zeroPrefix && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return bytes.slice(12);
+  }
+  if (zeroPrefix && bytes[10] === 0 && bytes[11] === 0) {
+    // IPv4-compatible; :: and ::1 are matched by the IPv6 table instead
+    return bytes.slice(12, 15).some((b) => b !== 0) ? bytes.slice(12) : null;
+  }
+  if (prefixMatches(bytes, ipv6ToBytes("64:ff9b::"), 96)) {
+    return bytes.slice(12);
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+    return bytes.slice(2, 6);
+  }
+  return null;
+}
+
+/**
+ * Classify an IP address. Returns a label describing why the address is
+ * non-public (e.g. "loopback"), or null if it is a public address.
+ */
+export function classifyAddress(address: string): string | null {
+  const family = isIP(address.split("%")[0]);
+
+  if (family === 4) {
+    const bytes = ipv4ToBytes(address);
+    if (bytes.every((b) => b === 255)) {
+      return "broadcast";
+    }
+    return IPV4_RANGES.find((range) => prefixMatches(bytes, range.bytes, range.prefix))?.label ?? null;
+  }
+
+  if (family === 6) {
+    const bytes = ipv6ToBytes(address);
+    const v4 = embeddedIpv4(bytes);
+    if (v4) {
+      return classifyAddress(v4.join("."));
+    }
+    return IPV6_RANGES.find((range) => prefixMatches(bytes, range.bytes, range.prefix))?.label ?? null;
+  }
+
+  return "invalid address";
+}
+
+/**
+ * Check whether an address falls within an allowlisted IP or CIDR entry
+ */
+function addressMatchesEntry(address: string, entry: string): boolean {
+  const [base, prefixText] = entry.split("/");
+  const family = isIP(base);
+  if (!family || family !== isIP(address)) {
+    return false;
+  }
+  const bytes = family === 4 ? ipv4ToBytes(address) : ipv6ToBytes(address);
+  const range = family === 4 ? ipv4ToBytes(base) : ipv6ToBytes(base);
+  const prefix = prefixText !== undefined ? parseInt(prefixText, 10) : bytes.length * 8;
+  return prefixMatches(bytes, range, prefix);
+}
+
+/**
+ * Check whether a hostname matches a host or `*.suffix` entry
+ */
+export function hostMatchesEntry(hostname: string, entry: string): boolean {
+  const host = hostname.toLowerCase();
+  const pattern = entry.toLowerCase();
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+/**
+ * Check whether a hostname and (optionally) its resolved address are exempt
+ * from the guard through the configured allowlist
+ */
+export function isAllowlisted(hostname: string, address?: string): boolean {
+  const allowlist = getConfig().fetchAllowlist;
+  return allowlist.some(
+    (entry) =>
+      entry === "*" ||
+      hostMatchesEntry(hostname, entry) ||
+      (address !== undefined && addressMatchesEntry(address, entry))
+  );
+}
+
+/**
+ * Throw if a hostname/address pair may not be contacted
+ */
+function assertAddressAllowed(hostname: string, address: string): void {
+  const reason = classifyAddress(address);
+  if (reason && !isAllowlisted(hostname, address)) {
+    throw new BlockedDestinationError(hostname, address, reason);
+  }
+}
+
+/**
+ * Strip the brackets the URL parser keeps around IPv6 literals
+ */
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Check a URL before it is requested. IP literals (including the decimal,
+ * octal and hex forms the URL parser normalizes) are checked directly;
+ * hostnames are checked again at connection time by `guardedLookup`.
+ */
+export function assertUrlAllowed(url: URL): void {
+  const hostname = bareHostname(url);
+  if (isIP(hostname)) {
+    assertAddressAllowed(hostname, hostname);
+  }
+}
+
+/**
+ * Check a URL that is about to be sent through a proxy. The proxy resolves
+ * the hostname itself, so `guardedLookup` never sees it; the name is
+ * resolved here instead and refused if any address is non-public. A name
+ * that does not resolve locally cannot be checked, so it is refused too
+ * unless it is allowlisted (it may be a name only the proxy's network knows).
+ */
+export async function assertProxiedUrlAllowed(url: URL): Promise<void> {
+  assertUrlAllowed(url);
+  const hostname = bareHostname(url);
+  if (isIP(hostname)) {
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dnsPromises.lookup(hostname, { all: true });
+  } catch {
+    if (isAllowlisted(hostname)) {
+      return;
+    }
+    throw new BlockedDestinationError(hostname, undefined, "name does not resolve locally");
+  }
+  for (const { address } of addresses) {
+    assertAddressAllowed(hostname, address);
+  }
+}
+
+type LookupCallback = Parameters<LookupFunction>[2];
+
+/**
+ * DNS lookup used for every outbound connection. All resolved addresses are
+ * vetted and the connection is made to the address that was checked, so a
+ * hostname cannot be re-resolved to a private address after the check
+ * (DNS rebinding).
+ */
+export function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: LookupCallback
+): void {
+  dnsLookup(hostname, { family: options.family ?? 0, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    try {
+      for (const { address } of addresses) {
+        assertAddressAllowed(hostname, address);
+      }
+    } catch (blocked) {
+      callback(blocked as NodeJS.ErrnoException, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+let guardedAgent: Agent | undefined;
+
+/**
+ * Shared undici dispatcher whose connections are resolved through
+ * `guardedLookup`
+ */
+export function getGuardedAgent(): Agent {
+  if (!guardedAgent) {
+    guardedAgent = new Agent({
+      connect: { lookup: guardedLookup },
+    });
+  }
+  return guardedAgent;
+}
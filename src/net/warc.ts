@@ -0,0 +1,509 @@
+import { createHash, randomUUID } from "node:crypto";
+import { access, appendFile, mkdir, readFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { brotliDecompressSync, gunzipSync, gzipSync, inflateSync } from "node:zlib";
+import { Response as UndiciResponse, type FormData } from "undici";
+import { getConfig } from "../config.js";
+import { redactRequestHeaders } from "./credentials.js";
+
+/**
+ * Thrown when a WARC file name given in a tool call is not a plain file name
+ */
+export class InvalidWarcNameError extends Error {
+  constructor(readonly warcName: string) {
+    super(
+      `Invalid WARC file name ${JSON.stringify(warcName)}: use letters, digits, ".", "_" and "-" (optionally ending in .warc or .warc.gz)`
+    );
+    this.name = "InvalidWarcNameError";
+  }
+}
+
+/**
+ * Thrown when a WARC file (or an HTTP message inside it) cannot be parsed
+ */
+export class WarcFormatError extends Error {
+  constructor(reason: string) {
+    super(`Malformed WARC file: ${reason}`);
+    this.name = "WarcFormatError";
+  }
+}
+
+/**
+ * One HTTP request and the response it got. Response bodies are kept after
+ * content decoding, as they were extracted from.
+ */
+export interface ArchivedExchange {
+  url: URL;
+  /** When the response headers arrived */
+  date: Date;
+  method: string;
+  requestHeaders: Array<[string, string]>;
+  requestBody?: string | URLSearchParams | FormData;
+  status: number;
+  statusText: string;
+  responseHeaders: Array<[string, string]>;
+  /** Unset when the body was not read (redirect hops, retried attempts) */
+  body?: Uint8Array;
+  /** Whether `body` was cut off at the size limit */
+  truncated?: boolean;
+}
+
+/**
+ * A record read from a WARC file, with its header names lower-cased
+ */
+export interface WarcRecord {
+  headers: Map<string, string>;
+  block: Buffer;
+}
+
+/**
+ * An archived HTTP response, with its body transfer- and content-decoded
+ */
+export interface ArchivedResponse {
+  recordId: string;
+  /** WARC-Date of the record: when the response was received */
+  date: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Uint8Array;
+  /** Whether the record is marked with WARC-Truncated */
+  truncated: boolean;
+}
+
+const WARC_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/** Statuses whose responses cannot have a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Response headers describing how the body was encoded on the wire. The
+ * body is archived decoded, so they are kept under an X-Archive-Orig- prefix
+ * and a matching Content-Length is added. Fixture recordings do the same.
+ */
+export const WIRE_ENCODING_HEADERS = new Set(["content-encoding", "transfer-encoding", "content-length"]);
+
+/**
+ * Resolve a WARC file name from a tool call to a path under WARC_DIR. Names
+ * without a .warc or .warc.gz extension get .warc appended.
+ *
+ * @throws InvalidWarcNameError for anything but a plain file name
+ */
+export function warcPath(name: string): string {
+  if (!WARC_NAME.test(name)) {
+    throw new InvalidWarcNameError(name);
+  }
+  return join(getConfig().warcDir, /\.warc(\.gz)?$/.test(name) ? name : `${name}.warc`);
+}
+
+/**
+ * RFC 4648 base32, the customary encoding of WARC digests
+ */
+function base32(bytes: Uint8Array): string {
+  let encoded = "";
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      encoded += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    encoded += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return encoded.padEnd(Math.ceil(encoded.length / 8) * 8, "=");
+}
+
+/**
+ * Labelled digest as used in WARC-Block-Digest and WARC-Payload-Digest
+ */
+export function warcDigest(bytes: Uint8Array): string {
+  return `sha256:${base32(createHash("sha256").update(bytes).digest())}`;
+}
+
+function newRecordId(): string {
+  return `<urn:uuid:${randomUUID()}>`;
+}
+
+/**
+ * Serialize one WARC 1.1 record; Content-Length and WARC-Block-Digest are
+ * added from the block
+ */
+function warcRecord(fields: Array<[string, string]>, block: Buffer): Buffer {
+  const head = [
+    "WARC/1.1",
+    ...fields.map(([name, value]) => `${name}: ${value}`),
+    `WARC-Block-Digest: ${warcDigest(block)}`,
+    `Content-Length: ${block.byteLength}`,
+    "",
+    "",
+  ].join("\r\n");
+  return Buffer.concat([Buffer.from(head, "utf-8"), block, Buffer.from("\r\n\r\n")]);
+}
+
+/**
+ * The warcinfo record that starts every file written by the server
+ */
+function warcinfoRecord(filename: string): Buffer {
+  const info = [
+    "software: webpage-extract/1.0.0",
+    "format: WARC File Format 1.1",
+    "conformsTo: https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/",
+    "",
+  ].join("\r\n");
+  return warcRecord(
+    [
+      ["WARC-Type", "warcinfo"],
+      ["WARC-Record-ID", newRecordId()],
+      ["WARC-Date", new Date().toISOString()],
+      ["WARC-Filename", filename],
+      ["Content-Type", "application/warc-fields"],
+    ],
+    Buffer.from(info, "utf-8")
+  );
+}
+
+/**
+ * Bytes of an outbound request body. Multipart bodies are serialized again,
+ * so their boundary differs from the one that was sent.
+ */
+async function requestBodyBytes(
+  body: ArchivedExchange["requestBody"]
+): Promise<{ bytes?: Buffer; contentType?: string }> {
+  if (body === undefined) {
+    return {};
+  }
+  if (typeof body === "string") {
+    return { bytes: Buffer.from(body, "utf-8") };
+  }
+  if (body instanceof URLSearchParams) {
+    return {
+      bytes: Buffer.from(body.toString(), "utf-8"),
+      contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+    };
+  }
+  const encoded = new UndiciResponse(body);
+  return {
+    bytes: Buffer.from(await encoded.arrayBuffer()),
+    contentType: encoded.headers.get("content-type") ?? undefined,
+  };
+}
+
+/**
+ * The request as an HTTP/1.1 message, with credentials redacted
+ */
+async function requestBlock(exchange: ArchivedExchange): Promise<Buffer> {
+  const { bytes, contentType } = await requestBodyBytes(exchange.requestBody);
+  const headers = redactRequestHeaders(
+    exchange.requestHeaders.filter(([name]) => name.toLowerCase() !== "host")
+  );
+  const hasContentType = headers.some(([name]) => name.toLowerCase() === "content-type");
+
+  const lines = [
+    `${exchange.method} ${exchange.url.pathname}${exchange.url.search} HTTP/1.1`,
+    `Host: ${exchange.url.host}`,
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+  ];
+  if (contentType && !hasContentType) {
+    lines.push(`Content-Type: ${contentType}`);
+  }
+  if (bytes) {
+    lines.push(`Content-Length: ${bytes.byteLength}`);
+  }
+  return Buffer.concat([Buffer.from(`${lines.join("\r\n")}\r\n\r\n`, "utf-8"), bytes ?? Buffer.alloc(0)]);
+}
+
+/**
+ * The response as an HTTP/1.1 message carrying the decoded body
+ */
+function responseBlock(exchange: ArchivedExchange, payload: Buffer): Buffer {
+  const lines = [`HTTP/1.1 ${exchange.status} ${exchange.statusText}`];
+  for (const [name, value] of exchange.responseHeaders) {
+    lines.push(
+      WIRE_ENCODING_HEADERS.has(name.toLowerCase())
+        ? `x-archive-orig-${name}: ${value}`
+        : `${name}: ${value}`
+    );
+  }
+  if (exchange.body) {
+    lines.push(`content-length: ${payload.byteLength}`);
+  }
+  return Buffer.concat([Buffer.from(`${lines.join("\r\n")}\r\n\r\n`, "utf-8"), payload]);
+}
+
+/**
+ * Why a response record does not hold the full body, if it does not
+ */
+function truncation(exchange: ArchivedExchange): string | undefined {
+  if (exchange.truncated) {
+    return "length";
+  }
+  const announced = exchange.responseHeaders.find(([name]) => name.toLowerCase() === "content-length");
+  const empty = NULL_BODY_STATUSES.has(exchange.status) || announced?.[1] === "0";
+  return exchange.body || empty || exchange.method === "HEAD" ? undefined : "unspecified";
+}
+
+/**
+ * Response and request records for one exchange, linked by
+ * WARC-Concurrent-To
+ */
+async function exchangeRecords(
+  exchange: ArchivedExchange
+): Promise<{ records: Buffer[]; ids: string[] }> {
+  const responseId = newRecordId();
+  const requestId = newRecordId();
+  const date = exchange.date.toISOString();
+  const payload = Buffer.from(exchange.body ?? new Uint8Array());
+  const truncated = truncation(exchange);
+
+  const response = warcRecord(
+    [
+      ["WARC-Type", "response"],
+      ["WARC-Record-ID", responseId],
+      ["WARC-Date", date],
+      ["WARC-Target-URI", exchange.url.href],
+      ["Content-Type", "application/http;msgtype=response"],
+      ["WARC-Payload-Digest", warcDigest(payload)],
+      ...(truncated ? [["WARC-Truncated", truncated] as [string, string]] : []),
+    ],
+    responseBlock(exchange, payload)
+  );
+  const request = warcRecord(
+    [
+      ["WARC-Type", "request"],
+      ["WARC-Record-ID", requestId],
+      ["WARC-Date", date],
+      ["WARC-Target-URI", exchange.url.href],
+      ["WARC-Concurrent-To", responseId],
+      ["Content-Type", "application/http;msgtype=request"],
+    ],
+    await requestBlock(exchange)
+  );
+
+  return { records: [response, request], ids: [responseId, requestId] };
+}
+
+/** Pending appends per file, so records from concurrent calls do not interleave */
+const writeQueues = new Map<string, Promise<void>>();
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Append a response and a request record for each exchange to a WARC file
+ * under WARC_DIR, starting new files with a warcinfo record. Files ending in
+ * .gz get one gzip member per record.
+ *
+ * @returns The IDs of the records written, in file order
+ */
+export async function appendExchanges(name: string, exchanges: ArchivedExchange[]): Promise<string[]> {
+  const path = warcPath(name);
+  const records: Buffer[] = [];
+  const ids: string[] = [];
+  for (const exchange of exchanges) {
+    const written = await exchangeRecords(exchange);
+    records.push(...written.records);
+    ids.push(...written.ids);
+  }
+
+  const write = (writeQueues.get(path) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const chunks = (await fileExists(path)) ? records : [warcinfoRecord(basename(path)), ...records];
+      await appendFile(
+        path,
+        Buffer.concat(path.endsWith(".gz") ? chunks.map((chunk) => gzipSync(chunk)) : chunks)
+      );
+    });
+  writeQueues.set(path, write);
+  try {
+    await write;
+  } finally {
+    if (writeQueues.get(path) === write) {
+      writeQueues.delete(path);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Read every record of a WARC file, compressed (.warc.gz, one or more gzip
+ * members) or not
+ */
+export async function readWarc(path: string): Promise<WarcRecord[]> {
+  let data = await readFile(path);
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = gunzipSync(data);
+  }
+
+  const records: WarcRecord[] = [];
+  let offset = 0;
+  for (;;) {
+    while (offset < data.length && (data[offset] === 0x0d || data[offset] === 0x0a)) {
+      offset++;
+    }
+    if (offset >= data.length) {
+      return records;
+    }
+
+    const headerEnd = data.indexOf("\r\n\r\n", offset);
+    if (headerEnd < 0) {
+      throw new WarcFormatError(`incomplete record header at byte ${offset}`);
+    }
+    const [version, ...lines] = data.subarray(offset, headerEnd).toString("utf-8").split("\r\n");
+    if (!version.startsWith("WARC/")) {
+      throw new WarcFormatError(`expected a record at byte ${offset}`);
+    }
+
+    const headers = new Map<string, string>();
+    for (const line of lines) {
+      const colon = line.indexOf(":");
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+    }
+    const length = Number(headers.get("content-length"));
+    const start = headerEnd + 4;
+    if (!Number.isInteger(length) || length < 0 || start + length > data.length) {
+      throw new WarcFormatError(`bad Content-Length in the record at byte ${offset}`);
+    }
+    records.push({ headers, block: data.subarray(start, start + length) });
+    offset = start + length;
+  }
+}
+
+/**
+ * Target URI of a record, normalized for comparison (WARC 1.0 writers
+ * sometimes wrap it in angle brackets)
+ */
+function targetUri(record: WarcRecord): string | undefined {
+  const uri = record.headers.get("warc-target-uri")?.replace(/^<(.*)>$/, "$1");
+  if (uri === undefined) {
+    return undefined;
+  }
+  try {
+    return new URL(uri).href;
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * Distinct URLs that have a response record, in file order
+ */
+export function archivedUrls(records: WarcRecord[]): string[] {
+  const urls = records
+    .filter((record) => record.headers.get("warc-type") === "response")
+    .map(targetUri)
+    .filter((uri): uri is string => uri !== undefined);
+  return [...new Set(urls)];
+}
+
+function dechunk(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf("\r\n", offset);
+    const size = lineEnd < 0 ? NaN : parseInt(body.subarray(offset, lineEnd).toString("latin1"), 16);
+    if (!(size > 0)) {
+      return Buffer.concat(chunks);
+    }
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+}
+
+function decodeContent(body: Buffer, encoding: string): Buffer {
+  switch (encoding) {
+    case "":
+    case "identity":
+      return body;
+    case "gzip":
+    case "x-gzip":
+      return gunzipSync(body);
+    case "deflate":
+      return inflateSync(body);
+    case "br":
+      return brotliDecompressSync(body);
+    default:
+      throw new WarcFormatError(`unsupported Content-Encoding ${encoding}`);
+  }
+}
+
+/**
+ * Parse the HTTP message of a response record. Chunked and compressed
+ * bodies, as written by other archiving tools, are decoded.
+ */
+function parseResponseRecord(record: WarcRecord, url: string): ArchivedResponse {
+  const { block } = record;
+  const headEnd = block.indexOf("\r\n\r\n");
+  const head = block.subarray(0, headEnd < 0 ? block.length : headEnd).toString("latin1");
+  let body = headEnd < 0 ? Buffer.alloc(0) : block.subarray(headEnd + 4);
+
+  const [statusLine, ...lines] = head.split("\r\n");
+  const status = /^HTTP\/\d(?:\.\d)? (\d{3})(?: (.*))?$/.exec(statusLine);
+  if (!status) {
+    throw new WarcFormatError(`the response record for ${url} has no HTTP status line`);
+  }
+
+  const headers: Array<[string, string]> = [];
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers.push([line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()]);
+    }
+  }
+  const header = (name: string) =>
+    headers
+      .filter(([key]) => key === name)
+      .map(([, value]) => value.toLowerCase())
+      .join(", ");
+
+  if (header("transfer-encoding").includes("chunked")) {
+    body = dechunk(body);
+  }
+  const encodings = header("content-encoding").split(",").map((encoding) => encoding.trim());
+  for (const encoding of encodings.reverse()) {
+    body = decodeContent(body, encoding);
+  }
+
+  return {
+    recordId: record.headers.get("warc-record-id") ?? "",
+    date: record.headers.get("warc-date") ?? "",
+    url,
+    status: Number(status[1]),
+    statusText: status[2] ?? "",
+    headers,
+    body: new Uint8Array(body),
+    truncated: record.headers.has("warc-truncated"),
+  };
+}
+
+/**
+ * Find the latest response record for a URL
+ *
+ * @throws WarcFormatError if the record's HTTP message cannot be parsed
+ */
+export function findResponse(records: WarcRecord[], url: string): ArchivedResponse | undefined {
+  const target = new URL(url).href;
+  for (let index = records.length - 1; index >= 0; index--) {
+    const record = records[index];
+    if (record.headers.get("warc-type") === "response" && targetUri(record) === target) {
+      return parseResponseRecord(record, target);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,160 @@
+import type {
+  ClearCookiesData,
+  ClearCookiesInput,
+  CookieData,
+  CookieInput,
+  ListCookiesData,
+  ListCookiesInput,
+  Response,
+  SetCookiesData,
+  SetCookiesInput,
+  ToolContext,
+} from "../types.js";
+import { CookieRejectedError, parseSetCookie, type Cookie } from "../net/cookies.js";
+import { deleteSession, getSessionJar, LOCAL_CONTEXT } from "../net/sessions.js";
+import { createErrorResponse, createSuccessResponse, isValidUrl } from "./fetch.js";
+
+/**
+ * Convert a stored cookie to the shape returned by the cookie tools
+ */
+function toCookieData(cookie: Cookie): CookieData {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    host_only: cookie.hostOnly,
+    path: cookie.path,
+    expires: cookie.expires === null ? null : new Date(cookie.expires).toISOString(),
+    secure: cookie.secure,
+    http_only: cookie.httpOnly,
+    same_site: cookie.sameSite,
+  };
+}
+
+/**
+ * Serialize a cookie given to set_cookies as a Set-Cookie header, so it is
+ * checked by the same rules as cookies set by a server
+ */
+function toSetCookieHeader(cookie: CookieInput): string {
+  if (/[;\r\n]/.test(cookie.name + cookie.value)) {
+    throw new CookieRejectedError(cookie.name, "name and value may not contain ';' or line breaks");
+  }
+
+  const parts = [`${cookie.name}=${cookie.value}`];
+  if (cookie.domain) {
+    parts.push(`Domain=${cookie.domain}`);
+  }
+  if (cookie.path) {
+    parts.push(`Path=${cookie.path}`);
+  }
+  if (cookie.expires) {
+    const expires = Date.parse(cookie.expires);
+    if (Number.isNaN(expires)) {
+      throw new CookieRejectedError(cookie.name, `invalid expires date ${cookie.expires}`);
+    }
+    parts.push(`Expires=${new Date(expires).toUTCString()}`);
+  }
+  if (cookie.max_age !== undefined) {
+    parts.push(`Max-Age=${cookie.max_age}`);
+  }
+  if (cookie.secure) {
+    parts.push("Secure");
+  }
+  if (cookie.http_only) {
+    parts.push("HttpOnly");
+  }
+  if (cookie.same_site) {
+    parts.push(`SameSite=${cookie.same_site}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * List the cookies of a session, optionally only those sent to a URL
+ */
+export async function listCookies(
+  input: ListCookiesInput,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<ListCookiesData>> {
+  const { session, url } = input;
+
+  if (url !== undefined && !isValidUrl(url)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Invalid URL format. Must be a valid HTTP or HTTPS URL.",
+      { url }
+    );
+  }
+
+  const jar = getSessionJar(context.clientId, session);
+  const cookies = jar ? (url ? jar.cookiesFor(new URL(url)) : jar.list()) : [];
+  const warnings = jar ? [] : [`Session ${session} does not exist`];
+
+  return createSuccessResponse<ListCookiesData>(
+    { session, cookies: cookies.map(toCookieData) },
+    undefined,
+    warnings
+  );
+}
+
+/**
+ * Add cookies to a session (creating it if needed) as if `url` had set them
+ */
+export async function setCookies(
+  input: SetCookiesInput,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<SetCookiesData>> {
+  const { session, url, cookies } = input;
+
+  if (!isValidUrl(url)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Invalid URL format. Must be a valid HTTP or HTTPS URL.",
+      { url }
+    );
+  }
+
+  const jar = getSessionJar(context.clientId, session, true);
+  const target = new URL(url);
+  const rejected: SetCookiesData["rejected"] = [];
+  let stored = 0;
+
+  for (const cookie of cookies) {
+    try {
+      jar.store(parseSetCookie(toSetCookieHeader(cookie), target));
+      stored++;
+    } catch (error) {
+      if (!(error instanceof CookieRejectedError)) {
+        throw error;
+      }
+      rejected.push({ name: cookie.name, reason: error.message });
+    }
+  }
+
+  return createSuccessResponse<SetCookiesData>(
+    { session, stored, rejected },
+    undefined,
+    rejected.map((entry) => entry.reason)
+  );
+}
+
+/**
+ * Remove a session's cookies for one domain, or the whole session
+ */
+export async function clearCookies(
+  input: ClearCookiesInput,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<ClearCookiesData>> {
+  const { session, domain } = input;
+  const jar = getSessionJar(context.clientId, session);
+  let removed = 0;
+
+  if (jar) {
+    removed = domain ? jar.clear(domain) : jar.list().length;
+    if (!domain) {
+      deleteSession(context.clientId, session);
+    }
+  }
+
+  return createSuccessResponse<ClearCookiesData>({ session, removed });
+}
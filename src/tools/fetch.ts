@@ -1,13 +1,87 @@
 import type {
   FetchUrlInput,
   FetchUrlData,
+  HttpMethod,
+  RedirectHop,
   Response,
+  ToolContext,
+  ResponseMeta,
   ErrorCode,
 } from "../types.js";
+import { setTimeout as sleep } from "node:timers/promises";
+import { FormData, type Response as UndiciResponse } from "undici";
+import { getConfig, type CredentialProfile } from "../config.js";
+import {
+  assertUrlAllowed,
+  findBlockedDestination,
+} from "../net/ssrf.js";
+import { readBodyWithLimit, ResponseTooLargeError } from "../net/body.js";
+import { decodeBody } from "../net/charset.js";
+import {
+  getResponseCache,
+  headerValue,
+  isCacheable,
+  isCacheableRequest,
+  isFresh,
+  refreshEntry,
+  revalidationHeaders,
+  varyMatches,
+  varyValues,
+} from "../net/cache.js";
+import {
+  backoffDelay,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "../net/retry.js";
+import { getHostScheduler } from "../net/politeness.js";
+import { resolveRoute } from "../net/proxy.js";
+import { isTruncatedRecording, ReplayMissError, sendRequest } from "../net/replay.js";
+import { CookieJar } from "../net/cookies.js";
+import {
+  credentialProfileNames,
+  credentialsAllowed,
+  getCredentialProfile,
+  redactSecrets,
+} from "../net/credentials.js";
+import { getSessionJar, LOCAL_CONTEXT } from "../net/sessions.js";
+import {
+  convertBody,
+  mediaType,
+  UnsupportedContentError,
+  type ContentKind,
+} from "../formats/convert.js";
+import { getRobotsRules } from "../net/robots.js";
+import {
+  appendExchanges,
+  archivedUrls,
+  findResponse,
+  InvalidWarcNameError,
+  readWarc,
+  WarcFormatError,
+  warcPath,
+  type ArchivedExchange,
+} from "../net/warc.js";
 
-/** Default configuration values */
-const DEFAULT_TIMEOUT_MS = 30000;
-const DEFAULT_USER_AGENT = "webpage-extract/1.0.0";
+/** Default maximum number of redirects followed before giving up */
+const DEFAULT_MAX_REDIRECTS = 20;
+
+/** HTTP status codes that carry a Location to follow */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * A fetch failure that maps directly onto an error response
+ */
+class FetchFailure extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "FetchFailure";
+  }
+}
 
 /**
  * Validate URL format
@@ -34,15 +108,17 @@ export function isUrl(str: string): boolean {
 export function createSuccessResponse<T>(
   data: T,
   source?: string,
-  warnings: string[] = []
+  warnings: string[] = [],
+  extraMeta: Partial<ResponseMeta> = {}
 ): Response<T> {
   return {
     ok: true,
     data,
     meta: {
+      ...extraMeta,
       source,
       retrieved_at: new Date().toISOString(),
-      pagination: { next_cursor: null },
+      pagination: extraMeta.pagination ?? { next_cursor: null },
       warnings,
     },
   };
@@ -70,13 +146,470 @@ export function createErrorResponse(
 }
 
 /**
- * Fetch raw HTML from a URL with optional custom headers and timeout
+ * Method, headers and body of an outbound request
  */
-export async function fetchUrl(
-  input: FetchUrlInput
-): Promise<Response<FetchUrlData>> {
-  const { url, headers = {}, timeout_ms } = input;
-  const timeout = timeout_ms ?? DEFAULT_TIMEOUT_MS;
+interface OutgoingRequest {
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string | URLSearchParams | FormData;
+  /** Session jar that supplies cookies and stores the ones set by responses */
+  cookies?: CookieJar;
+  /** Credential profile, sent on the hops whose URL it is scoped to */
+  credentials?: CredentialProfile;
+  /** Collects every request/response exchange for archiving when given */
+  exchanges?: ArchivedExchange[];
+  /** Largest body the caller accepts; recordings keep no more than this */
+  maxBytes?: number;
+}
+
+/**
+ * Set a header, replacing any existing header of the same name regardless of
+ * case. Cookie values are appended to an existing Cookie header instead.
+ */
+function withHeader(
+  headers: Record<string, string>,
+  name: string,
+  value: string
+): Record<string, string> {
+  const key = Object.keys(headers).find((existing) => existing.toLowerCase() === name.toLowerCase());
+  if (!key) {
+    return { ...headers, [name]: value };
+  }
+  const append = name.toLowerCase() === "cookie" && headers[key];
+  return { ...headers, [key]: append ? `${headers[key]}; ${value}` : value };
+}
+
+/**
+ * Headers for one hop of a request: the explicit headers, then the
+ * credential profile's headers if the profile may be sent to `url`, then the
+ * jar's cookies for `url`
+ */
+function hopHeaders(request: OutgoingRequest, url: URL): Record<string, string> {
+  let headers = request.headers;
+  if (request.credentials && credentialsAllowed(request.credentials, url)) {
+    for (const [name, value] of Object.entries(request.credentials.headers)) {
+      headers = withHeader(headers, name, value);
+    }
+  }
+
+  const fromJar = request.cookies?.cookieHeader(url);
+  return fromJar ? withHeader(headers, "Cookie", fromJar) : headers;
+}
+
+/**
+ * Which redirects may be followed
+ */
+interface RedirectPolicy {
+  maxRedirects: number;
+  allowCrossOrigin: boolean;
+  allowInsecure: boolean;
+}
+
+/**
+ * A response whose per-host slot is still held; `release` must be called
+ * once the body has been consumed or cancelled
+ */
+interface HeldResponse {
+  response: UndiciResponse;
+  finalUrl: URL;
+  redirects: RedirectHop[];
+  /** Proxy the final response came through (without credentials) */
+  proxy?: string;
+  /** The final exchange, when exchanges are being archived */
+  exchange?: ArchivedExchange;
+  release: () => void;
+}
+
+/**
+ * Wait for permission to request a URL: check robots.txt (when enabled) and
+ * take a slot from the per-host scheduler, spaced by the configured delay or
+ * the site's Crawl-delay, whichever is longer
+ */
+async function acquireHostSlot(url: URL, signal: AbortSignal): Promise<() => void> {
+  const config = getConfig();
+  let delay = config.hostDelayMs;
+
+  if (config.respectRobotsTxt) {
+    const rules = await getRobotsRules(url, config.userAgent, signal);
+    if (!rules.isAllowed(url.pathname + url.search)) {
+      throw new FetchFailure(
+        "ROBOTS_DISALLOWED",
+        rules.unavailableReason
+          ? `Fetching ${url.href} is not allowed: ${rules.unavailableReason}`
+          : `Fetching ${url.href} is disallowed by robots.txt`,
+        { blocked_url: url.href, reason: rules.unavailableReason }
+      );
+    }
+    delay = Math.max(delay, rules.crawlDelayMs);
+  }
+
+  return getHostScheduler().acquire(url.origin, config.hostConcurrency, delay, signal);
+}
+
+/**
+ * Explain why a redirect may not be followed under a policy, or return null
+ * if it may. `count` is the number of redirects including this one.
+ */
+function redirectRefusal(from: URL, to: URL, policy: RedirectPolicy, count: number): string | null {
+  if (count > policy.maxRedirects) {
+    return `more than ${policy.maxRedirects} redirect(s)`;
+  }
+  if (!policy.allowInsecure && from.protocol === "https:" && to.protocol === "http:") {
+    return "redirect from https to http";
+  }
+  if (!policy.allowCrossOrigin && from.origin !== to.origin) {
+    return `cross-origin redirect to ${to.origin}`;
+  }
+  return null;
+}
+
+/**
+ * Whether every hop of a recorded redirect chain is allowed by a policy
+ */
+function redirectsAllowed(redirects: RedirectHop[], policy: RedirectPolicy): boolean {
+  return redirects.every(
+    (hop, index) => redirectRefusal(new URL(hop.url), new URL(hop.location), policy, index + 1) === null
+  );
+}
+
+/**
+ * Headers the caller supplied that identify them, dropped on a redirect to
+ * another origin (credential profiles and the jar are re-applied per hop)
+ */
+const CROSS_ORIGIN_STRIPPED_HEADERS = new Set(["authorization", "cookie", "proxy-authorization"]);
+
+/**
+ * The request to make after a redirect from `from` to `to`: 303 turns
+ * anything but HEAD into a body-less GET, and so do 301/302 for POST (as
+ * browsers do); 307 and 308 repeat the request. Credential headers the caller
+ * set are not sent to another origin.
+ */
+function redirectedRequest(
+  request: OutgoingRequest,
+  status: number,
+  from: URL,
+  to: URL
+): OutgoingRequest {
+  const toGet =
+    (status === 303 && request.method !== "HEAD") ||
+    ((status === 301 || status === 302) && request.method === "POST");
+  const crossOrigin = from.origin !== to.origin;
+  if (!toGet && !crossOrigin) {
+    return request;
+  }
+
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).filter(([name]) => {
+      const lower = name.toLowerCase();
+      return (
+        !(toGet && lower === "content-type") &&
+        !(crossOrigin && CROSS_ORIGIN_STRIPPED_HEADERS.has(lower))
+      );
+    })
+  );
+  if (!toGet) {
+    return { ...request, headers };
+  }
+  return {
+    method: "GET",
+    headers,
+    cookies: request.cookies,
+    credentials: request.credentials,
+    exchanges: request.exchanges,
+    maxBytes: request.maxBytes,
+  };
+}
+
+/**
+ * Request a URL, following redirects manually so every hop passes the
+ * destination guard, the redirect policy and the per-host politeness checks.
+ * Each hop is sent directly or through the proxy configured for its host.
+ * Cookies set by any hop are sent on later hops when a jar is given, and
+ * every hop is added to the request's exchanges when it collects them.
+ */
+async function requestWithRedirects(
+  url: URL,
+  request: OutgoingRequest,
+  signal: AbortSignal,
+  policy: RedirectPolicy
+): Promise<HeldResponse> {
+  let currentUrl = url;
+  let currentRequest = request;
+  const redirects: RedirectHop[] = [];
+
+  for (;;) {
+    assertUrlAllowed(currentUrl);
+
+    const route = await resolveRoute(currentUrl);
+    const release = await acquireHostSlot(currentUrl, signal);
+    const { method, body } = currentRequest;
+    const headers = hopHeaders(currentRequest, currentUrl);
+    let response: UndiciResponse;
+    try {
+      response = await sendRequest(
+        currentUrl,
+        {
+          method,
+          body,
+          headers,
+          signal,
+          redirect: "manual",
+          dispatcher: route.dispatcher,
+        },
+        currentRequest.maxBytes
+      );
+    } catch (error) {
+      release();
+      throw error;
+    }
+    currentRequest.cookies?.setCookies(response.headers.getSetCookie(), currentUrl);
+
+    let exchange: ArchivedExchange | undefined;
+    if (currentRequest.exchanges) {
+      exchange = {
+        url: currentUrl,
+        date: new Date(),
+        method,
+        requestHeaders: Object.entries(headers),
+        requestBody: body,
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders: [...response.headers],
+      };
+      currentRequest.exchanges.push(exchange);
+    }
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, finalUrl: currentUrl, redirects, proxy: route.proxy, exchange, release };
+    }
+
+    try {
+      await response.body?.cancel();
+    } finally {
+      release();
+    }
+
+    const nextUrl = new URL(location, currentUrl);
+    redirects.push({ url: currentUrl.href, status: response.status, location: nextUrl.href });
+
+    if (!isValidUrl(nextUrl.href)) {
+      throw new FetchFailure(
+        "UPSTREAM_ERROR",
+        `Redirect to unsupported URL: ${nextUrl.href}`,
+        { location: nextUrl.href, redirects }
+      );
+    }
+    const refusal = redirectRefusal(currentUrl, nextUrl, policy, redirects.length);
+    if (refusal) {
+      throw new FetchFailure("REDIRECT_REFUSED", `Redirect refused: ${refusal}`, {
+        location: nextUrl.href,
+        redirects,
+      });
+    }
+    currentRequest = redirectedRequest(currentRequest, response.status, currentUrl, nextUrl);
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Build the request body from the `body`, `json` or `form` input, with the
+ * Content-Type to send for it (fetch sets the type of form bodies itself)
+ */
+function requestBody(input: FetchUrlInput): Pick<OutgoingRequest, "body"> & { contentType?: string } {
+  if (input.json !== undefined) {
+    return { body: JSON.stringify(input.json), contentType: "application/json" };
+  }
+  if (input.form) {
+    if (input.form_encoding === "multipart") {
+      const data = new FormData();
+      for (const [name, value] of Object.entries(input.form)) {
+        data.append(name, value);
+      }
+      return { body: data };
+    }
+    return { body: new URLSearchParams(input.form) };
+  }
+  return { body: input.body };
+}
+
+/**
+ * Number of requests made and total time spent waiting between them
+ */
+interface RetryStats {
+  attempts: number;
+  waitMs: number;
+}
+
+function retryMeta(stats: RetryStats): { attempts: number; retry_wait_ms: number } {
+  return { attempts: stats.attempts, retry_wait_ms: stats.waitMs };
+}
+
+/**
+ * Request a URL, retrying connection failures, 5xx and 429 responses with
+ * jittered exponential backoff. A Retry-After header replaces the backoff
+ * delay; retrying stops if it exceeds the configured ceiling or the request
+ * deadline. After the last attempt the final response is returned as-is.
+ */
+async function requestWithRetries(
+  url: URL,
+  request: OutgoingRequest,
+  signal: AbortSignal,
+  deadline: number,
+  maxRetries: number,
+  redirectPolicy: RedirectPolicy,
+  stats: RetryStats
+): Promise<HeldResponse> {
+  const { retryBaseDelayMs, retryMaxDelayMs } = getConfig();
+
+  for (let retry = 0; ; retry++) {
+    stats.attempts++;
+    const canRetry = retry < maxRetries;
+    let delay: number;
+
+    try {
+      const result = await requestWithRedirects(url, request, signal, redirectPolicy);
+      if (!canRetry || !isRetryableStatus(result.response.status)) {
+        return result;
+      }
+
+      const retryAfter = parseRetryAfter(result.response.headers.get("retry-after"));
+      if (retryAfter !== null && retryAfter > retryMaxDelayMs) {
+        return result;
+      }
+      delay = retryAfter ?? backoffDelay(retry, retryBaseDelayMs, retryMaxDelayMs);
+      if (Date.now() + delay >= deadline) {
+        return result;
+      }
+      try {
+        await result.response.body?.cancel();
+      } finally {
+        result.release();
+      }
+    } catch (error) {
+      if (!canRetry || !isRetryableError(error)) {
+        throw error;
+      }
+      delay = backoffDelay(retry, retryBaseDelayMs, retryMaxDelayMs);
+      if (Date.now() + delay >= deadline) {
+        throw error;
+      }
+    }
+
+    await sleep(delay, undefined, { signal });
+    stats.waitMs += delay;
+  }
+}
+
+/**
+ * The parts of a (live or cached) response reported by fetch_url
+ */
+interface FetchedResponse {
+  status: number;
+  contentType: string | null;
+  finalUrl: string;
+  redirects: RedirectHop[];
+  /** Response headers, when they should be included in the result */
+  headers?: Array<[string, string]>;
+  /** `performance.now()` at the start of the call and when headers arrived */
+  startedAt: number;
+  firstByteAt: number;
+}
+
+/**
+ * Group header name/value pairs into a multi-valued map
+ */
+function groupHeaders(pairs: Array<[string, string]>): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {};
+  for (const [name, value] of pairs) {
+    (grouped[name] ??= []).push(value);
+  }
+  return grouped;
+}
+
+/**
+ * A response body as read from the network or the cache, before decoding
+ */
+interface FetchedBody {
+  body: { bytes: Uint8Array; truncated: boolean };
+  fetched: FetchedResponse;
+}
+
+/**
+ * Build the fetch_url success envelope from a response body
+ */
+function buildFetchResult(
+  url: string,
+  body: { bytes: Uint8Array; truncated: boolean },
+  fetched: FetchedResponse,
+  warnings: string[],
+  meta: Partial<ResponseMeta>
+): Response<FetchUrlData> {
+  const { text: html, encoding, encoding_source } = decodeBody(
+    body.bytes,
+    fetched.contentType,
+    body.truncated
+  );
+
+  return createSuccessResponse<FetchUrlData>(
+    {
+      html,
+      status_code: fetched.status,
+      content_type: fetched.contentType,
+      final_url: fetched.finalUrl,
+      encoding,
+      encoding_source,
+      redirects: fetched.redirects,
+      ...(fetched.headers && { headers: groupHeaders(fetched.headers) }),
+      timing: {
+        ttfb_ms: Math.round(fetched.firstByteAt - fetched.startedAt),
+        total_ms: Math.round(performance.now() - fetched.startedAt),
+        body_bytes: body.bytes.byteLength,
+      },
+    },
+    url,
+    warnings,
+    meta
+  );
+}
+
+/**
+ * Fetch a URL from the network and read its body without decoding it.
+ * Responses are served from and stored in the response cache, honouring
+ * Cache-Control/Expires and revalidating stale entries with ETag or
+ * Last-Modified. Transient failures are retried with backoff. Requests to
+ * the same origin are limited and spaced out, and robots.txt is honoured when
+ * enabled.
+ *
+ * @param exchanges - Collects every request and response for archiving;
+ *   the cache is not used when it is given
+ */
+async function fetchFromNetwork(
+  input: FetchUrlInput,
+  jar: CookieJar,
+  exchanges?: ArchivedExchange[]
+): Promise<Response<FetchedBody>> {
+  const startedAt = performance.now();
+  const {
+    url,
+    headers = {},
+    timeout_ms,
+    on_max_bytes = "fail",
+    bypass_cache = false,
+    method = "GET",
+  } = input;
+  const config = getConfig();
+  const timeout = timeout_ms ?? config.defaultTimeoutMs;
+  const maxBytes = input.max_bytes ?? config.maxResponseBytes;
+  // POST is not idempotent, so it is only retried when asked for explicitly
+  const maxRetries = input.max_retries ?? (method === "POST" ? 0 : config.maxRetries);
+  // HEAD is for inspecting headers, so always return them
+  const include_headers = input.include_headers ?? method === "HEAD";
+  const redirectPolicy: RedirectPolicy = {
+    maxRedirects: input.max_redirects ?? DEFAULT_MAX_REDIRECTS,
+    allowCrossOrigin: input.allow_cross_origin_redirects ?? true,
+    allowInsecure: input.allow_insecure_redirects ?? true,
+  };
 
   // Validate URL
   if (!url || typeof url !== "string") {
@@ -91,48 +624,280 @@ export async function fetchUrl(
     );
   }
 
+  const bodyInputs = [input.body, input.json, input.form].filter((value) => value !== undefined);
+  if (bodyInputs.length > 1) {
+    return createErrorResponse("INVALID_INPUT", "Only one of body, json and form may be given", {
+      url,
+    });
+  }
+  if (bodyInputs.length > 0 && (method === "GET" || method === "HEAD")) {
+    return createErrorResponse("INVALID_INPUT", `A ${method} request cannot have a body`, {
+      url,
+      method,
+    });
+  }
+
+  const profile = input.credentials ? getCredentialProfile(input.credentials) : undefined;
+  if (input.credentials && !profile) {
+    return createErrorResponse("INVALID_INPUT", `Unknown credential profile: ${input.credentials}`, {
+      url,
+      credentials: input.credentials,
+      available: credentialProfileNames(),
+    });
+  }
+  if (profile && !credentialsAllowed(profile, new URL(url))) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      `Credential profile ${input.credentials} may not be sent to ${new URL(url).origin}`,
+      { url, credentials: input.credentials, allowed_hosts: profile.hosts }
+    );
+  }
+
+  const { body: payload, contentType } = requestBody(input);
+  const hasContentType = Object.keys(headers).some((name) => name.toLowerCase() === "content-type");
+  const requestHeaders: Record<string, string> = {
+    "User-Agent": config.userAgent,
+    Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    ...(contentType && !hasContentType && { "Content-Type": contentType }),
+    ...headers,
+  };
+
+  // Only GET responses are cached, and never for requests sending cookies,
+  // credentials or headers of their own. Archived requests always go to the
+  // network.
+  const cache =
+    method === "GET" &&
+    !profile &&
+    !exchanges &&
+    isCacheableRequest(headers) &&
+    jar.cookiesFor(new URL(url)).length === 0
+      ? getResponseCache()
+      : null;
+  const cacheKey = new URL(url).href;
+  let cached = cache && !bypass_cache ? await cache.get(cacheKey) : undefined;
+  if (
+    cached &&
+    (!varyMatches(cached, requestHeaders) ||
+      cached.body.byteLength > maxBytes ||
+      !redirectsAllowed(cached.redirects ?? [], redirectPolicy))
+  ) {
+    cached = undefined;
+  }
+
+  if (cached && isFresh(cached)) {
+    return createSuccessResponse<FetchedBody>(
+      {
+        body: { bytes: cached.body, truncated: false },
+        fetched: {
+          status: cached.status,
+          contentType: headerValue(cached.headers, "content-type"),
+          finalUrl: cached.final_url,
+          redirects: cached.redirects ?? [],
+          headers: include_headers ? cached.headers : undefined,
+          startedAt,
+          firstByteAt: performance.now(),
+        },
+      },
+      url,
+      [],
+      { cache: "hit", attempts: 0, retry_wait_ms: 0 }
+    );
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const deadline = Date.now() + timeout;
+  const retries: RetryStats = { attempts: 0, waitMs: 0 };
+  let release: (() => void) | undefined;
+
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "User-Agent": DEFAULT_USER_AGENT,
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        ...headers,
+    const { response, finalUrl, redirects, exchange, ...held } = await requestWithRetries(
+      new URL(url),
+      {
+        method,
+        headers: cached ? { ...requestHeaders, ...revalidationHeaders(cached) } : requestHeaders,
+        body: payload,
+        cookies: jar,
+        credentials: profile,
+        exchanges,
+        maxBytes,
       },
-      signal: controller.signal,
-      redirect: "follow",
-    });
+      controller.signal,
+      deadline,
+      maxRetries,
+      redirectPolicy,
+      retries
+    );
+    release = held.release;
+    const firstByteAt = performance.now();
+    const routeMeta = held.proxy ? { proxy: held.proxy } : {};
+    const responseHeaders = [...response.headers];
 
-    clearTimeout(timeoutId);
+    if (response.status === 304 && cached && cache) {
+      await response.body?.cancel();
+      const refreshed = { ...refreshEntry(cached, responseHeaders), redirects };
+      await cache.set(cacheKey, refreshed);
+      return createSuccessResponse<FetchedBody>(
+        {
+          body: { bytes: refreshed.body, truncated: false },
+          fetched: {
+            status: refreshed.status,
+            contentType: headerValue(refreshed.headers, "content-type"),
+            finalUrl: refreshed.final_url,
+            redirects,
+            headers: include_headers ? refreshed.headers : undefined,
+            startedAt,
+            firstByteAt,
+          },
+        },
+        url,
+        [],
+        { cache: "revalidated", ...retryMeta(retries), ...routeMeta }
+      );
+    }
 
     if (!response.ok) {
+      await response.body?.cancel();
+
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        return createErrorResponse(
+          "RATE_LIMITED",
+          `HTTP 429: rate limited after ${retries.attempts} attempt(s)`,
+          {
+            status_code: response.status,
+            url,
+            retry_after_ms: retryAfter ?? undefined,
+            ...retryMeta(retries),
+            ...routeMeta,
+          }
+        );
+      }
+
       return createErrorResponse(
         "UPSTREAM_ERROR",
         `HTTP ${response.status}: ${response.statusText}`,
         {
           status_code: response.status,
           url,
+          ...retryMeta(retries),
+          ...routeMeta,
         }
       );
     }
 
-    const html = await response.text();
-    const contentType = response.headers.get("content-type");
+    if (method === "HEAD") {
+      if (exchange) {
+        exchange.body = new Uint8Array();
+      }
+      return createSuccessResponse<FetchedBody>(
+        {
+          body: { bytes: new Uint8Array(), truncated: false },
+          fetched: {
+            status: response.status,
+            contentType: response.headers.get("content-type"),
+            finalUrl: finalUrl.href,
+            redirects,
+            headers: include_headers ? responseHeaders : undefined,
+            startedAt,
+            firstByteAt,
+          },
+        },
+        url,
+        [],
+        { cache: "miss", ...retryMeta(retries), ...routeMeta }
+      );
+    }
+
+    const warnings: string[] = [];
+
+    // Refuse early when the server announces an oversized body
+    const contentLength = Number(response.headers.get("content-length"));
+    if (on_max_bytes === "fail" && contentLength > maxBytes) {
+      await response.body?.cancel();
+      throw new ResponseTooLargeError(maxBytes);
+    }
+
+    let body = await readBodyWithLimit(
+      response.body,
+      maxBytes,
+      on_max_bytes === "truncate"
+    );
+    // A recording cut at max_bytes holds only the start of a longer body
+    if (!body.truncated && isTruncatedRecording(response)) {
+      if (on_max_bytes === "fail") {
+        throw new ResponseTooLargeError(maxBytes);
+      }
+      body = { ...body, truncated: true };
+    }
+    if (body.truncated) {
+      warnings.push(`Response body truncated to ${maxBytes} bytes (max_bytes)`);
+    }
+    if (exchange) {
+      exchange.body = body.bytes;
+      exchange.truncated = body.truncated;
+    }
+
+    if (cache && !body.truncated && isCacheable(response.status, responseHeaders)) {
+      await cache.set(cacheKey, {
+        url: cacheKey,
+        final_url: finalUrl.href,
+        redirects,
+        status: response.status,
+        headers: responseHeaders,
+        body: body.bytes,
+        vary: varyValues(responseHeaders, requestHeaders),
+        stored_at: Date.now(),
+      });
+    }
 
-    return createSuccessResponse<FetchUrlData>(
+    return createSuccessResponse<FetchedBody>(
       {
-        html,
-        status_code: response.status,
-        content_type: contentType,
-        final_url: response.url,
+        body: body,
+        fetched: {
+          status: response.status,
+          contentType: response.headers.get("content-type"),
+          finalUrl: finalUrl.href,
+          redirects,
+          headers: include_headers ? responseHeaders : undefined,
+          startedAt,
+          firstByteAt,
+        },
       },
-      url
+      url,
+      warnings,
+      { cache: "miss", ...retryMeta(retries), ...routeMeta }
     );
   } catch (error) {
+    if (error instanceof FetchFailure) {
+      return createErrorResponse(error.code, error.message, { url, ...error.details });
+    }
+
+    if (error instanceof ReplayMissError) {
+      return createErrorResponse("REPLAY_MISS", error.message, {
+        url,
+        method: error.method,
+        unmatched_url: error.url,
+        fixtures: error.fixtures,
+      });
+    }
+
+    if (error instanceof ResponseTooLargeError) {
+      return createErrorResponse("RESPONSE_TOO_LARGE", error.message, {
+        url,
+        max_bytes: error.maxBytes,
+      });
+    }
+
+    const blocked = findBlockedDestination(error);
+    if (blocked) {
+      return createErrorResponse("BLOCKED_DESTINATION", blocked.message, {
+        url,
+        hostname: blocked.hostname,
+        address: blocked.address,
+      });
+    }
+
     if (error instanceof Error) {
       if (error.name === "AbortError") {
         return createErrorResponse("TIMEOUT", `Request timed out after ${timeout}ms`, {
@@ -150,7 +915,7 @@ export async function fetchUrl(
         return createErrorResponse(
           "UPSTREAM_ERROR",
           `Failed to connect to ${url}: ${error.message}`,
-          { url }
+          { url, ...retryMeta(retries) }
         );
       }
 
@@ -163,23 +928,290 @@ export async function fetchUrl(
     return createErrorResponse("INTERNAL_ERROR", "An unknown error occurred", {
       url,
     });
+  } finally {
+    clearTimeout(timeoutId);
+    release?.();
   }
 }
 
 /**
- * Fetch HTML from URL or return the HTML string if it's already HTML
+ * Serve a URL from a WARC file instead of the network, following archived
+ * redirects. The latest response recorded for each URL is used.
  */
-export async function fetchHtmlOrUseProvided(
-  htmlOrUrl: string
-): Promise<{ html: string; source?: string; error?: Response<never> }> {
-  if (isUrl(htmlOrUrl)) {
-    const result = await fetchUrl({ url: htmlOrUrl });
-    if (!result.ok) {
-      return { html: "", error: result };
+async function fetchArchivedBody(input: FetchUrlInput, warc: string): Promise<Response<FetchedBody>> {
+  const startedAt = performance.now();
+  const { url, on_max_bytes = "fail" } = input;
+  const maxBytes = input.max_bytes ?? getConfig().maxResponseBytes;
+  const maxRedirects = input.max_redirects ?? DEFAULT_MAX_REDIRECTS;
+
+  if (!url || typeof url !== "string" || !isValidUrl(url)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Invalid URL format. Must be a valid HTTP or HTTPS URL.",
+      { url }
+    );
+  }
+
+  try {
+    const records = await readWarc(warcPath(warc));
+    const redirects: RedirectHop[] = [];
+    const recordIds: string[] = [];
+    let currentUrl = new URL(url).href;
+
+    for (;;) {
+      const archived = findResponse(records, currentUrl);
+      if (!archived) {
+        return createErrorResponse("INVALID_INPUT", `No response for ${currentUrl} in ${warc}`, {
+          url,
+          warc,
+          missing_url: currentUrl,
+          archived_urls: archivedUrls(records).slice(0, 50),
+        });
+      }
+      recordIds.push(archived.recordId);
+      const meta = { warc: { file: warc, records: recordIds }, archived_at: archived.date };
+
+      const location = headerValue(archived.headers, "location");
+      if (REDIRECT_STATUSES.has(archived.status) && location) {
+        const nextUrl = new URL(location, currentUrl).href;
+        redirects.push({ url: currentUrl, status: archived.status, location: nextUrl });
+        if (redirects.length > maxRedirects) {
+          return createErrorResponse(
+            "REDIRECT_REFUSED",
+            `Redirect refused: more than ${maxRedirects} redirect(s)`,
+            { url, location: nextUrl, redirects }
+          );
+        }
+        currentUrl = nextUrl;
+        continue;
+      }
+
+      if (archived.status < 200 || archived.status >= 300) {
+        return createErrorResponse(
+          "UPSTREAM_ERROR",
+          `HTTP ${archived.status}: ${archived.statusText}`,
+          { status_code: archived.status, url, ...meta }
+        );
+      }
+
+      const warnings: string[] = [];
+      if (archived.truncated) {
+        warnings.push("The archived response body is incomplete (WARC-Truncated)");
+      }
+      let bytes = archived.body;
+      if (bytes.byteLength > maxBytes) {
+        if (on_max_bytes === "fail") {
+          throw new ResponseTooLargeError(maxBytes);
+        }
+        bytes = bytes.subarray(0, maxBytes);
+        warnings.push(`Response body truncated to ${maxBytes} bytes (max_bytes)`);
+      }
+
+      return createSuccessResponse<FetchedBody>(
+        {
+          body: { bytes, truncated: bytes !== archived.body || archived.truncated },
+          fetched: {
+            status: archived.status,
+            contentType: headerValue(archived.headers, "content-type"),
+            finalUrl: currentUrl,
+            redirects,
+            headers: input.include_headers ? archived.headers : undefined,
+            startedAt,
+            firstByteAt: performance.now(),
+          },
+        },
+        url,
+        warnings,
+        meta
+      );
+    }
+  } catch (error) {
+    if (error instanceof InvalidWarcNameError) {
+      return createErrorResponse("INVALID_INPUT", error.message, { url, warc });
+    }
+    if (error instanceof ResponseTooLargeError) {
+      return createErrorResponse("RESPONSE_TOO_LARGE", error.message, {
+        url,
+        max_bytes: error.maxBytes,
+      });
     }
-    return { html: result.data.html, source: htmlOrUrl };
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return createErrorResponse("INVALID_INPUT", `WARC file not found: ${warc}`, { url, warc });
+    }
+    return createErrorResponse(
+      "PARSE_ERROR",
+      error instanceof WarcFormatError ? error.message : `Failed to read ${warc}: ${String(error)}`,
+      { url, warc }
+    );
+  }
+}
+
+/**
+ * Fetch a URL's body for a tool call: from the WARC file the call reads from
+ * (see extract_from_warc), otherwise from the network. With `warc`, every
+ * request and response of the fetch is appended to that WARC file, and the
+ * record IDs are reported in `meta.warc`.
+ */
+async function fetchBody(input: FetchUrlInput, context: ToolContext): Promise<Response<FetchedBody>> {
+  if (context.warcSource) {
+    return fetchArchivedBody(input, context.warcSource);
+  }
+
+  const jar = cookieJarFor(input.session, context);
+  if (input.warc === undefined) {
+    return fetchFromNetwork(input, jar);
+  }
+
+  try {
+    warcPath(input.warc);
+  } catch (error) {
+    if (error instanceof InvalidWarcNameError) {
+      return createErrorResponse("INVALID_INPUT", error.message, {
+        url: input.url,
+        warc: input.warc,
+      });
+    }
+    throw error;
+  }
+
+  const exchanges: ArchivedExchange[] = [];
+  const result = await fetchFromNetwork(input, jar, exchanges);
+  if (exchanges.length === 0) {
+    return result;
+  }
+
+  let records: string[];
+  try {
+    records = await appendExchanges(input.warc, exchanges);
+  } catch (error) {
+    return createErrorResponse(
+      "INTERNAL_ERROR",
+      `Failed to write WARC file ${input.warc}: ${error instanceof Error ? error.message : String(error)}`,
+      { url: input.url, warc: input.warc }
+    );
+  }
+
+  const warc = { file: input.warc, records };
+  if (result.ok) {
+    return { ...result, meta: { ...result.meta, warc } };
+  }
+  return { ...result, error: { ...result.error, details: { ...result.error.details, warc } } };
+}
+
+/**
+ * Get the cookie jar for a call: the client's named session if one is
+ * given, otherwise a jar that only lives for this call (so cookies set
+ * during a redirect chain are still sent on the following hops)
+ */
+function cookieJarFor(session: string | undefined, context: ToolContext): CookieJar {
+  return session ? getSessionJar(context.clientId, session, true) : new CookieJar();
+}
+
+/**
+ * Remove the secrets of the call's credential profile from a result, in
+ * case the page (or an error) echoes them back
+ */
+function redactFor<T>(credentials: string | undefined, value: T): T {
+  const profile = credentials ? getCredentialProfile(credentials) : undefined;
+  return profile ? redactSecrets(value, profile) : value;
+}
+
+/**
+ * Fetch raw HTML from a URL with optional custom headers and timeout. The
+ * body is decoded using the detected character encoding.
+ */
+export async function fetchUrl(
+  input: FetchUrlInput,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<FetchUrlData>> {
+  const result = await fetchBody(input, context);
+  if (!result.ok) {
+    return redactFor(input.credentials, result);
+  }
+  return redactFor(
+    input.credentials,
+    buildFetchResult(
+      input.url,
+      result.data.body,
+      result.data.fetched,
+      result.meta.warnings,
+      result.meta
+    )
+  );
+}
+
+/**
+ * Fetch HTML from URL or return the HTML string if it's already HTML.
+ * `options` are passed through to fetchUrl when a URL is given; `meta`
+ * carries fetch metadata (cache status, attempts, proxy) for the extractor's
+ * response.
+ *
+ * Fetched bodies are dispatched on their content type (see `convertBody`):
+ * plain text, JSON, XML feeds and PDFs are converted to HTML, and `markdown`
+ * is set when the content has a direct Markdown rendering. Unsupported types
+ * fail with INVALID_INPUT.
+ */
+export async function fetchHtmlOrUseProvided(
+  htmlOrUrl: string,
+  options: Omit<FetchUrlInput, "url"> = {},
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<{
+  html: string;
+  markdown?: string;
+  content_kind: ContentKind;
+  source?: string;
+  /** URL the content was finally served from, after redirects */
+  final_url?: string;
+  warnings: string[];
+  meta: Partial<ResponseMeta>;
+  error?: Response<never>;
+}> {
+  if (!isUrl(htmlOrUrl)) {
+    // It's raw HTML
+    return { html: htmlOrUrl, content_kind: "html", warnings: [], meta: {} };
   }
 
-  // It's raw HTML
-  return { html: htmlOrUrl };
+  const failed = (error: Response<never>) => ({
+    html: "",
+    content_kind: "html" as const,
+    warnings: [],
+    meta: {},
+    error: redactFor(options.credentials, error),
+  });
+
+  const result = await fetchBody({ ...options, url: htmlOrUrl }, context);
+  if (!result.ok) {
+    return failed(result);
+  }
+
+  const { body, fetched } = result.data;
+  try {
+    const document = await convertBody(body.bytes, fetched.contentType, body.truncated);
+    return redactFor(options.credentials, {
+      html: document.html,
+      markdown: document.markdown,
+      content_kind: document.kind,
+      source: htmlOrUrl,
+      final_url: fetched.finalUrl,
+      warnings: [...result.meta.warnings, ...document.warnings],
+      meta: result.meta,
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedContentError) {
+      return failed(
+        createErrorResponse(
+          "INVALID_INPUT",
+          `${error.message}. Only HTML, text, JSON, XML/RSS/Atom and PDF can be extracted.`,
+          { url: htmlOrUrl, content_type: error.contentType }
+        )
+      );
+    }
+    return failed(
+      createErrorResponse(
+        "PARSE_ERROR",
+        `Failed to convert ${mediaType(fetched.contentType) || "response"}: ${error instanceof Error ? error.message : String(error)}`,
+        { url: htmlOrUrl, content_type: fetched.contentType }
+      )
+    );
+  }
 }
@@ -2,3 +2,7 @@ export { fetchUrl, isValidUrl, isUrl, createSuccessResponse, createErrorResponse
 export { extractReadableMarkdown } from "./markdown.js";
 export { extractTables } from "./tables.js";
 export { extractMetadata } from "./metadata.js";
+export { listCookies, setCookies, clearCookies } from "./cookies.js";
+export { extractFromWarc } from "./warc.js";
+export { TOOLS, getTool, listTools, runTool, toCallToolResult } from "./registry.js";
+export type { CallToolResult } from "./registry.js";
@@ -1,25 +1,55 @@
+import { createHash } from "node:crypto";
 import * as cheerio from "cheerio";
 import TurndownService from "turndown";
+import type { AnyNode, Element } from "domhandler";
 import type {
   ExtractMarkdownInput,
   ExtractMarkdownData,
   Heading,
   Response,
+  ResponseMeta,
+  SectionInfo,
+  ToolContext,
 } from "../types.js";
 import {
   fetchHtmlOrUseProvided,
   createSuccessResponse,
   createErrorResponse,
+  isValidUrl,
 } from "./fetch.js";
+import { LOCAL_CONTEXT } from "../net/sessions.js";
+import { findMainContent, type MainContent } from "../formats/readability.js";
+import { chunkMarkdown, type ChunkOptions } from "../formats/chunk.js";
+import {
+  findSection,
+  markdownHeadings,
+  markdownSection,
+  sectionNodes,
+  sectionPath,
+  type SectionQuery,
+} from "../formats/sections.js";
+import { buildMarkdownOutline, buildOutline, outlineHeadings } from "../formats/outline.js";
+import { addGfmRules, renderTables } from "../formats/gfm.js";
+import { blocksToText, extractBlocks } from "../formats/blocks.js";
+import { sanitizeHtml } from "../formats/html.js";
+
+/** Chunks returned per call unless the caller sets max_chunks */
+const DEFAULT_MAX_CHUNKS = 10;
+
+/** Attribute marking the requested section's heading, so it survives removal */
+const SECTION_MARKER = "data-extract-section";
+
+/**
+ * Elements that are never content, removed from every page
+ */
+const NON_CONTENT_ELEMENTS = ["script", "style", "noscript"];
 
 /**
  * Elements to remove from the HTML before converting to Markdown
  * These are typically navigation, ads, and boilerplate elements
+ * (applied unless the caller sets keep_defaults to false)
  */
 const ELEMENTS_TO_REMOVE = [
-  "script",
-  "style",
-  "noscript",
   "iframe",
   "nav",
   "header",
@@ -27,7 +57,8 @@ const ELEMENTS_TO_REMOVE = [
   "aside",
   "form",
   "button",
-  "input",
+  // Checkboxes are kept for task lists
+  'input:not([type="checkbox"])',
   "select",
   "textarea",
   ".nav",
@@ -98,64 +129,361 @@ function createTurndownService(): TurndownService {
     },
   });
 
+  addGfmRules(turndown);
+
   return turndown;
 }
 
-// Use AnyNode type from cheerio
-type CheerioElement = ReturnType<typeof cheerio.load> extends (selector: string) => infer R ? (R extends { first(): infer F } ? (F extends { 0: infer E } ? E : never) : never) : never;
-
-/**
- * Find the main content area of the page
- */
-function findMainContent($: cheerio.CheerioAPI): ReturnType<typeof $> {
-  // Try common main content selectors in order of preference
-  const mainSelectors = [
-    "main",
-    "article",
-    '[role="main"]',
-    "#content",
-    "#main",
-    "#main-content",
-    ".content",
-    ".main",
-    ".main-content",
-    ".post",
-    ".article",
-    ".entry",
-    ".entry-content",
-    ".post-content",
-    ".article-content",
+/**
+ * Check the caller's selectors before fetching anything, so a typo fails
+ * fast rather than silently matching nothing
+ * @returns An INVALID_INPUT response naming the first invalid selector
+ */
+function checkSelectors(input: ExtractMarkdownInput): Response<never> | undefined {
+  const fields: Array<[string, string]> = [
+    ...(input.content_selector !== undefined
+      ? [["content_selector", input.content_selector] as [string, string]]
+      : []),
+    ...(input.include_selectors ?? []).map(
+      (selector, index): [string, string] => [`include_selectors[${index}]`, selector]
+    ),
+    ...(input.exclude_selectors ?? []).map(
+      (selector, index): [string, string] => [`exclude_selectors[${index}]`, selector]
+    ),
   ];
 
-  for (const selector of mainSelectors) {
-    const element = $(selector);
-    if (element.length > 0) {
-      return element.first();
+  const probe = cheerio.load("<p></p>");
+  for (const [field, selector] of fields) {
+    try {
+      if (!selector.trim()) {
+        throw new Error("selector is empty");
+      }
+      probe(selector);
+    } catch (error) {
+      return createErrorResponse("INVALID_INPUT", `Invalid CSS selector in ${field}: ${selector}`, {
+        field,
+        selector,
+        reason: error instanceof Error ? error.message : String(error),
+      });
     }
   }
+  return undefined;
+}
 
-  // Fallback to body
-  return $("body");
+/**
+ * Remove the elements matching any of `selectors`, except protected ones:
+ * elements matching an include selector, inside one, or containing one
+ */
+function removeElements(
+  $: cheerio.CheerioAPI,
+  selectors: string[],
+  includeSelectors: string[]
+): void {
+  const keep = includeSelectors.join(", ");
+  for (const selector of selectors) {
+    $(selector).each((_, element) => {
+      const $element = $(element);
+      const isProtected =
+        keep !== "" &&
+        ($element.is(keep) || $element.parents(keep).length > 0 || $element.find(keep).length > 0);
+      if (!isProtected) {
+        $element.remove();
+      }
+    });
+  }
 }
 
 /**
- * Extract headings from the document
+ * Resolve `url` against `base`, or undefined if either is unusable
+ */
+function resolveUrl(url: string, base: string | undefined): string | undefined {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve each URL of a `srcset` ("a.png 1x, b.png 2x") against `base`
+ */
+function resolveSrcset(srcset: string, base: string): string {
+  return srcset
+    .split(",")
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return url ? [resolveUrl(url, base) ?? url, ...descriptors].join(" ") : "";
+    })
+    .filter((candidate) => candidate.length > 0)
+    .join(", ");
+}
+
+/**
+ * Make link and image URLs absolute, so the Markdown is usable away from the
+ * page. A `<base href>` takes precedence over the document URL. Links that
+ * lead nowhere (`javascript:`, `#`, or an empty href) are replaced by their
+ * text; when no base is known, other URLs are left as they are.
  */
-function extractHeadings($: cheerio.CheerioAPI): Heading[] {
-  const headings: Heading[] = [];
+function absolutizeUrls($: cheerio.CheerioAPI, documentUrl: string | undefined): void {
+  const baseHref = $("base[href]").first().attr("href")?.trim();
+  const base = (baseHref && resolveUrl(baseHref, documentUrl)) || documentUrl;
 
-  $("h1, h2, h3, h4, h5, h6").each((_, element) => {
-    const $el = $(element);
-    const tagName = element.tagName.toLowerCase();
-    const level = parseInt(tagName.charAt(1), 10);
-    const text = $el.text().trim();
+  $("a[href]").each((_, element) => {
+    const $link = $(element);
+    const href = ($link.attr("href") ?? "").trim();
+    if (href === "" || href === "#" || /^javascript:/i.test(href.replace(/\s/g, ""))) {
+      $link.replaceWith($link.contents());
+      return;
+    }
+    const resolved = base && resolveUrl(href, base);
+    if (resolved) {
+      $link.attr("href", resolved);
+    }
+  });
 
-    if (text) {
-      headings.push({ level, text });
+  if (!base) {
+    return;
+  }
+  $("[src]").each((_, element) => {
+    const src = ($(element).attr("src") ?? "").trim();
+    const resolved = src && resolveUrl(src, base);
+    if (resolved) {
+      $(element).attr("src", resolved);
     }
   });
+  $("[srcset]").each((_, element) => {
+    $(element).attr("srcset", resolveSrcset($(element).attr("srcset") ?? "", base));
+  });
+}
+
+/**
+ * A caller's chunking request: the options (unset when chunking is off) and,
+ * when continuing from a cursor, where to resume and the document it was for
+ */
+interface ChunkRequest {
+  options?: ChunkOptions;
+  start: number;
+  digest?: string;
+}
+
+/**
+ * Check the chunking options that the input schema cannot express
+ * @returns An INVALID_INPUT response, or the parsed request
+ */
+function checkChunking(input: ExtractMarkdownInput): Response<never> | ChunkRequest {
+  const { chunk_size, chunk_unit = "tokens", chunk_overlap = 0, cursor, format } = input;
+
+  if (chunk_size === undefined) {
+    return cursor === undefined
+      ? { start: 0 }
+      : createErrorResponse("INVALID_INPUT", "cursor requires chunk_size", { cursor });
+  }
+  if (format !== undefined && format !== "markdown") {
+    return createErrorResponse("INVALID_INPUT", "chunk_size applies to the markdown format only", {
+      format,
+    });
+  }
+  if (!Number.isInteger(chunk_size) || chunk_size < 1) {
+    return createErrorResponse("INVALID_INPUT", "chunk_size must be a positive integer", {
+      chunk_size,
+    });
+  }
+  if (!Number.isInteger(chunk_overlap) || chunk_overlap < 0 || chunk_overlap >= chunk_size) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "chunk_overlap must be a non-negative integer smaller than chunk_size",
+      { chunk_size, chunk_overlap }
+    );
+  }
+
+  const options: ChunkOptions = { size: chunk_size, unit: chunk_unit, overlap: chunk_overlap };
+  if (cursor === undefined) {
+    return { options, start: 0 };
+  }
+  try {
+    const { start, digest } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (Number.isInteger(start) && start > 0 && typeof digest === "string") {
+      return { options, start, digest };
+    }
+  } catch {
+    // Reported below
+  }
+  return createErrorResponse("INVALID_INPUT", "Invalid cursor", { cursor });
+}
+
+/**
+ * Fingerprint of a document and the options it was chunked with, carried in
+ * cursors so that a page of a different document or chunking is refused
+ */
+function chunkDigest(markdown: string, options: ChunkOptions): string {
+  return createHash("sha256")
+    .update(JSON.stringify([options.size, options.unit, options.overlap, markdown]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Build the response for the rendered content, its Markdown chunked and
+ * paged if requested
+ */
+function respond(
+  data: ExtractMarkdownData,
+  input: ExtractMarkdownInput,
+  { options, start, digest }: ChunkRequest,
+  source: string | undefined,
+  warnings: string[],
+  meta: Partial<ResponseMeta>
+): Response<ExtractMarkdownData> {
+  const { markdown } = data;
+  if (!options || markdown === undefined) {
+    return createSuccessResponse(data, source, warnings, meta);
+  }
+
+  const expected = chunkDigest(markdown, options);
+  const chunks = chunkMarkdown(markdown, options);
+  // Without a cursor start is 0, so empty content gives an empty first page
+  if (digest !== undefined && (digest !== expected || start >= chunks.length)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "cursor does not match this document; it may have changed, or the chunking options differ",
+      { cursor: input.cursor }
+    );
+  }
 
-  return headings;
+  const end = Math.min(start + (input.max_chunks ?? DEFAULT_MAX_CHUNKS), chunks.length);
+  const page = chunks.slice(start, end);
+  const oversized = page.filter((chunk) => chunk.size > options.size).length;
+  const chunkWarnings =
+    oversized > 0
+      ? [
+          `${oversized} chunk(s) exceed chunk_size because code blocks and tables are not split`,
+        ]
+      : [];
+  const nextCursor =
+    end < chunks.length
+      ? Buffer.from(JSON.stringify({ start: end, digest: expected })).toString("base64url")
+      : null;
+
+  return createSuccessResponse<ExtractMarkdownData>(
+    {
+      ...data,
+      // The page's text as in the document, without breaks where paragraphs were split
+      markdown: page.map((chunk, i) => (i > 0 ? chunk.joiner + chunk.body : chunk.body)).join(""),
+      chunks: page.map((chunk, i) => ({
+        index: start + i,
+        heading_path: chunk.headingPath.join(" > "),
+        markdown: chunk.overlap ? `${chunk.overlap}\n\n${chunk.body}` : chunk.body,
+        size: chunk.size,
+      })),
+      total_chunks: chunks.length,
+    },
+    source,
+    [...warnings, ...chunkWarnings],
+    { ...meta, pagination: { next_cursor: nextCursor } }
+  );
+}
+
+/**
+ * Check the section options
+ * @returns An INVALID_INPUT response, or the query (undefined when no
+ * section was asked for)
+ */
+function checkSection(input: ExtractMarkdownInput): Response<never> | SectionQuery | undefined {
+  const { section, section_pattern, section_index, content_selector } = input;
+  const given = [section, section_pattern, section_index].filter((value) => value !== undefined);
+
+  if (given.length === 0) {
+    return undefined;
+  }
+  if (given.length > 1) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Give only one of section, section_pattern and section_index"
+    );
+  }
+  if (content_selector !== undefined) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "content_selector cannot be combined with a section; the section is found in the whole page"
+    );
+  }
+
+  if (section_index !== undefined) {
+    return Number.isInteger(section_index) && section_index >= 0
+      ? { index: section_index }
+      : createErrorResponse("INVALID_INPUT", "section_index must be a non-negative integer", {
+          section_index,
+        });
+  }
+  if (section_pattern !== undefined) {
+    try {
+      return { pattern: new RegExp(section_pattern, "i") };
+    } catch (error) {
+      return createErrorResponse("INVALID_INPUT", `Invalid section_pattern: ${section_pattern}`, {
+        section_pattern,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return section?.trim()
+    ? { text: section }
+    : createErrorResponse("INVALID_INPUT", "section must not be empty");
+}
+
+/**
+ * Fail a section request that no heading matches, listing the headings the
+ * caller can choose from
+ */
+function noSuchSection(input: ExtractMarkdownInput, headings: Heading[]): Response<never> {
+  const { section, section_pattern, section_index } = input;
+  const asked =
+    section !== undefined
+      ? `section "${section}"`
+      : section_pattern !== undefined
+        ? `section_pattern /${section_pattern}/`
+        : `section_index ${section_index}`;
+  return createErrorResponse(
+    "INVALID_INPUT",
+    headings.length > 0
+      ? `No heading matches ${asked}; the page has ${headings.length} heading(s)`
+      : `No heading matches ${asked}; the page has no headings`,
+    {
+      available_headings: headings.map((heading, index) => ({ index, ...heading })),
+    }
+  );
+}
+
+/**
+ * Describe the section at heading `index` for the response
+ */
+function sectionInfo(headings: Heading[], index: number): SectionInfo {
+  return { index, ...headings[index], path: sectionPath(headings, index) };
+}
+
+/**
+ * Find the heading elements of the document that have text, in order
+ */
+function headingElements($: cheerio.CheerioAPI): Element[] {
+  return $("h1, h2, h3, h4, h5, h6")
+    .toArray()
+    .filter((element) => $(element).text().trim() !== "");
+}
+
+/**
+ * Extract headings from the document
+ */
+function extractHeadings($: cheerio.CheerioAPI, elements = headingElements($)): Heading[] {
+  return elements.map((element) => ({
+    level: parseInt(element.tagName.charAt(1), 10),
+    text: $(element).text().trim(),
+  }));
+}
+
+/**
+ * Extract ATX headings from Markdown, skipping fenced code blocks
+ */
+function extractMarkdownHeadings(markdown: string): Heading[] {
+  return markdownHeadings(markdown).map(({ level, text }) => ({ level, text }));
 }
 
 /**
@@ -172,9 +500,24 @@ function countWords(text: string): number {
  * Extract readable Markdown from HTML, removing boilerplate/navigation
  */
 export async function extractReadableMarkdown(
-  input: ExtractMarkdownInput
+  input: ExtractMarkdownInput,
+  context: ToolContext = LOCAL_CONTEXT
 ): Promise<Response<ExtractMarkdownData>> {
-  const { html_or_url } = input;
+  const {
+    html_or_url,
+    bypass_cache,
+    session,
+    credentials,
+    warc,
+    content_selector,
+    include_selectors = [],
+    exclude_selectors = [],
+    keep_defaults = true,
+    base_url,
+    whole_page_headings = false,
+    table_fallback = "html",
+    format = "markdown",
+  } = input;
 
   if (!html_or_url || typeof html_or_url !== "string") {
     return createErrorResponse(
@@ -183,60 +526,192 @@ export async function extractReadableMarkdown(
     );
   }
 
+  if (base_url !== undefined && !isValidUrl(base_url)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Invalid base_url. Must be a valid HTTP or HTTPS URL.",
+      { base_url }
+    );
+  }
+
+  const invalidSelector = checkSelectors(input);
+  if (invalidSelector) {
+    return invalidSelector;
+  }
+  const chunking = checkChunking(input);
+  if ("ok" in chunking) {
+    return chunking;
+  }
+  const sectionQuery = checkSection(input);
+  if (sectionQuery && "ok" in sectionQuery) {
+    return sectionQuery;
+  }
+
   try {
     // Fetch HTML if URL provided
-    const { html, source, error } = await fetchHtmlOrUseProvided(html_or_url);
+    const {
+      html,
+      markdown: providedMarkdown,
+      source,
+      final_url,
+      warnings: fetchWarnings,
+      meta: fetchMeta,
+      error,
+    } = await fetchHtmlOrUseProvided(
+      html_or_url,
+      { bypass_cache, session, credentials, warc },
+      context
+    );
     if (error) {
       return error;
     }
 
+    // Text, JSON, XML and PDF content is already Markdown; the other formats
+    // are rendered from the HTML it was converted to
+    if (providedMarkdown !== undefined && format === "markdown") {
+      const headings = extractMarkdownHeadings(providedMarkdown);
+      const index = sectionQuery ? findSection(headings, sectionQuery) : -1;
+      if (sectionQuery && index < 0) {
+        return noSuchSection(input, headings);
+      }
+      const markdown = sectionQuery ? markdownSection(providedMarkdown, index) : providedMarkdown;
+      return respond(
+        {
+          format,
+          markdown,
+          headings,
+          outline: buildMarkdownOutline(providedMarkdown, final_url),
+          word_count: countWords(markdown),
+          ...(sectionQuery ? { section: sectionInfo(headings, index) } : {}),
+        },
+        input,
+        chunking,
+        source,
+        fetchWarnings,
+        fetchMeta
+      );
+    }
+
     if (!html.trim()) {
       return createErrorResponse("INVALID_INPUT", "Empty HTML content provided");
     }
 
-    // Load HTML into cheerio
-    const $ = cheerio.load(html);
+    // Load HTML into cheerio, keeping source positions for blocks
+    const $ = cheerio.load(html, { sourceCodeLocationInfo: format === "blocks" });
 
-    // Extract headings before removing elements
-    const headings = extractHeadings($);
+    // Extract headings before removing elements. The whole page's are
+    // returned when asked for, or with a section (to show where it sits);
+    // otherwise the outline is built from the content that is converted.
+    const documentUrl = final_url ?? base_url;
+    const elements = headingElements($);
+    let headings = extractHeadings($, elements);
+    const pageOutline =
+      whole_page_headings || sectionQuery ? buildOutline([$.root()[0]], documentUrl) : undefined;
 
-    // Remove unwanted elements
-    for (const selector of ELEMENTS_TO_REMOVE) {
-      $(selector).remove();
+    // Mark the requested section's heading so removal spares it
+    const sectionIndex = sectionQuery ? findSection(headings, sectionQuery) : -1;
+    if (sectionQuery && sectionIndex < 0) {
+      return noSuchSection(input, headings);
     }
+    const sectionHeading = sectionQuery ? elements[sectionIndex] : undefined;
+    $(sectionHeading).attr(SECTION_MARKER, "");
 
-    // Find main content
-    const mainContent = findMainContent($);
+    // Remove unwanted elements, sparing the ones the caller protects
+    $(NON_CONTENT_ELEMENTS.join(", ")).remove();
+    removeElements(
+      $,
+      [...(keep_defaults ? ELEMENTS_TO_REMOVE : []), ...exclude_selectors],
+      sectionHeading ? [...include_selectors, `[${SECTION_MARKER}]`] : include_selectors
+    );
+    $(sectionHeading).removeAttr(SECTION_MARKER);
 
-    // Convert to Markdown
-    const turndown = createTurndownService();
-    const contentHtml = mainContent.html() || "";
-    let markdown = turndown.turndown(contentHtml);
+    // Links resolve against the page's final URL, or base_url for raw HTML
+    absolutizeUrls($, documentUrl);
 
-    // Clean up the markdown
-    markdown = markdown
-      // Remove excessive newlines
-      .replace(/\n{3,}/g, "\n\n")
-      // Remove leading/trailing whitespace
-      .trim();
+    // Render the requested section, or else the caller's container or the
+    // main content found by scoring (the body's children, or the chosen blocks whole)
+    let contentNodes: AnyNode[];
+    let mainContent: MainContent | undefined;
+    if (sectionHeading) {
+      contentNodes = sectionNodes(sectionHeading);
+    } else {
+      mainContent = findMainContent($, content_selector);
+      const { nodes } = mainContent;
+      contentNodes =
+        nodes.length === 1 && nodes.is("body") ? nodes.contents().toArray() : nodes.toArray();
+    }
+    let outline = pageOutline;
+    if (!outline) {
+      outline = buildOutline(contentNodes, documentUrl);
+      headings = outlineHeadings(outline);
+    }
 
-    const wordCount = countWords(markdown);
+    let content: Pick<ExtractMarkdownData, "markdown" | "text" | "html" | "blocks">;
+    let wordCount: number;
+    if (format === "markdown") {
+      // Data tables become pipe tables (their cells converted by Turndown too)
+      const turndown = createTurndownService();
+      const contentHtml = renderTables(
+        $.html(contentNodes),
+        (html) => turndown.turndown(html),
+        table_fallback
+      );
+      const markdown = turndown
+        .turndown(contentHtml)
+        // Remove excessive newlines
+        .replace(/\n{3,}/g, "\n\n")
+        // Remove leading/trailing whitespace
+        .trim();
+      content = { markdown };
+      wordCount = countWords(markdown);
+    } else {
+      // Words are counted in the plain text, whatever the format
+      const blocks = extractBlocks($, contentNodes);
+      const text = blocksToText(blocks);
+      content =
+        format === "text"
+          ? { text }
+          : format === "html"
+            ? { html: sanitizeHtml($, contentNodes) }
+            : { blocks };
+      wordCount = countWords(text);
+    }
 
-    const warnings: string[] = [];
-    if (wordCount < 50) {
+    const warnings: string[] = [...fetchWarnings];
+    if (content_selector && mainContent?.method !== "content_selector") {
+      warnings.push(
+        `content_selector ${content_selector} matched nothing; the main content was chosen by scoring`
+      );
+    }
+    if (mainContent && wordCount < 50) {
       warnings.push(
         "Extracted content is very short. The page may be JavaScript-rendered or have unusual structure."
       );
     }
 
-    return createSuccessResponse<ExtractMarkdownData>(
+    return respond(
       {
-        markdown,
+        format,
+        ...content,
         headings,
+        outline,
         word_count: wordCount,
+        ...(mainContent
+          ? {
+              main_content: {
+                selector: mainContent.selector,
+                score: mainContent.score,
+                merged: mainContent.merged,
+                method: mainContent.method,
+              },
+            }
+          : { section: sectionInfo(headings, sectionIndex) }),
       },
+      input,
+      chunking,
       source,
-      warnings
+      warnings,
+      fetchMeta
     );
   } catch (error) {
     if (error instanceof Error) {
@@ -4,12 +4,14 @@ import type {
   ExtractMetadataData,
   OpenGraphData,
   Response,
+  ToolContext,
 } from "../types.js";
 import {
   fetchHtmlOrUseProvided,
   createSuccessResponse,
   createErrorResponse,
 } from "./fetch.js";
+import { LOCAL_CONTEXT } from "../net/sessions.js";
 
 /**
  * Extract Open Graph metadata from the document
@@ -177,9 +179,10 @@ function extractPublishDate(
  * Open Graph tags, JSON-LD, author, and publish date
  */
 export async function extractMetadata(
-  input: ExtractMetadataInput
+  input: ExtractMetadataInput,
+  context: ToolContext = LOCAL_CONTEXT
 ): Promise<Response<ExtractMetadataData>> {
-  const { html_or_url } = input;
+  const { html_or_url, bypass_cache, session, credentials, warc } = input;
 
   if (!html_or_url || typeof html_or_url !== "string") {
     return createErrorResponse(
@@ -190,7 +193,17 @@ export async function extractMetadata(
 
   try {
     // Fetch HTML if URL provided
-    const { html, source, error } = await fetchHtmlOrUseProvided(html_or_url);
+    const {
+      html,
+      source,
+      warnings: fetchWarnings,
+      meta: fetchMeta,
+      error,
+    } = await fetchHtmlOrUseProvided(
+      html_or_url,
+      { bypass_cache, session, credentials, warc },
+      context
+    );
     if (error) {
       return error;
     }
@@ -202,7 +215,7 @@ export async function extractMetadata(
     // Load HTML into cheerio
     const $ = cheerio.load(html);
 
-    const warnings: string[] = [];
+    const warnings: string[] = [...fetchWarnings];
 
     // Extract title
     let title = $("title").first().text().trim() || undefined;
@@ -261,7 +274,8 @@ export async function extractMetadata(
         meta_tags: metaTags,
       },
       source,
-      warnings
+      warnings,
+      fetchMeta
     );
   } catch (error) {
     if (error instanceof Error) {
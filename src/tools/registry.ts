@@ -0,0 +1,784 @@
+import type {
+  FetchUrlInput,
+  FetchUrlData,
+  ExtractMarkdownInput,
+  ExtractMarkdownData,
+  ExtractTablesInput,
+  ExtractTablesData,
+  ExtractMetadataInput,
+  ExtractMetadataData,
+  ListCookiesInput,
+  ListCookiesData,
+  SetCookiesInput,
+  SetCookiesData,
+  ClearCookiesInput,
+  ClearCookiesData,
+  ExtractFromWarcInput,
+  ExtractFromWarcData,
+  JsonSchema,
+  Response,
+  ToolContext,
+  ToolDefinition,
+} from "../types.js";
+import { LOCAL_CONTEXT } from "../net/sessions.js";
+import { fetchUrl, createErrorResponse } from "./fetch.js";
+import { extractReadableMarkdown } from "./markdown.js";
+import { extractTables } from "./tables.js";
+import { extractMetadata } from "./metadata.js";
+import { listCookies, setCookies, clearCookies } from "./cookies.js";
+import { extractFromWarc } from "./warc.js";
+import { validateAgainstSchema } from "./validation.js";
+
+/**
+ * Result of a tool call in the shape expected by MCP `tools/call`
+ */
+export interface CallToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Declare a tool with its input/output types checked against the handler
+ */
+function defineTool<I, O>(definition: ToolDefinition<I, O>): ToolDefinition<I, O> {
+  return definition;
+}
+
+/**
+ * Wrap a tool's data schema in the standard success envelope
+ */
+function envelopeSchema(data: JsonSchema): JsonSchema & { type: "object" } {
+  return {
+    type: "object",
+    properties: {
+      ok: { type: "boolean", enum: [true] },
+      data,
+      meta: {
+        type: "object",
+        properties: {
+          source: { type: "string" },
+          retrieved_at: { type: "string" },
+          pagination: {
+            type: "object",
+            properties: {
+              next_cursor: { type: ["string", "null"] },
+            },
+          },
+          warnings: { type: "array", items: { type: "string" } },
+          cache: { type: "string", enum: ["hit", "revalidated", "miss"] },
+          attempts: { type: "number" },
+          retry_wait_ms: { type: "number" },
+          proxy: { type: "string" },
+          warc: {
+            type: "object",
+            properties: {
+              file: { type: "string" },
+              records: { type: "array", items: { type: "string" } },
+            },
+            required: ["file", "records"],
+          },
+          archived_at: { type: "string" },
+        },
+        required: ["retrieved_at", "warnings"],
+      },
+    },
+    required: ["ok", "data", "meta"],
+  };
+}
+
+const WARC_PROPERTY = {
+  type: "string",
+  description:
+    "Name of a WARC file in the server's WARC directory (e.g. \"audit-2024\" or \"audit.warc.gz\"). Every request and response of the fetch, including redirect hops, is appended to it and the record IDs are returned in meta.warc; the response cache is skipped",
+};
+
+const HTML_OR_URL_INPUT = {
+  type: "object" as const,
+  properties: {
+    html_or_url: {
+      type: "string",
+      description:
+        "Either a URL to fetch (http:// or https://) or raw HTML content",
+    },
+    bypass_cache: {
+      type: "boolean",
+      description:
+        "Fetch the URL from the network even if a cached copy is available (default: false)",
+    },
+    session: {
+      type: "string",
+      description:
+        "Named cookie session to send cookies from and store new cookies in when fetching a URL",
+    },
+    credentials: {
+      type: "string",
+      description:
+        "Name of a server-side credential profile to authenticate with when fetching a URL",
+    },
+    warc: WARC_PROPERTY,
+  },
+  required: ["html_or_url"],
+  additionalProperties: false,
+};
+
+const SESSION_PROPERTY = {
+  type: "string",
+  description: "Name of the cookie session",
+};
+
+const COOKIE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    value: { type: "string" },
+    domain: { type: "string" },
+    host_only: { type: "boolean" },
+    path: { type: "string" },
+    expires: { type: ["string", "null"] },
+    secure: { type: "boolean" },
+    http_only: { type: "boolean" },
+    same_site: { type: "string", enum: ["Strict", "Lax", "None"] },
+  },
+  required: ["name", "value", "domain", "host_only", "path", "expires", "secure", "http_only"],
+};
+
+/**
+ * Tool definitions shared by every transport
+ */
+export const TOOLS: ToolDefinition[] = [
+  defineTool<FetchUrlInput, FetchUrlData>({
+    name: "fetch_url",
+    description:
+      "Fetch raw HTML from a URL with optional custom headers and timeout. Supports GET, HEAD, POST and PUT with raw, JSON or form bodies. Returns the HTML content (decoded using the detected character encoding), status code, content type, final URL and the redirect chain that led to it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "The URL to fetch (must be http:// or https://)",
+        },
+        method: {
+          type: "string",
+          enum: ["GET", "HEAD", "POST", "PUT"],
+          description:
+            "HTTP method (default: GET). HEAD returns the response headers without a body",
+        },
+        body: {
+          type: "string",
+          description: "Raw request body for POST or PUT; set Content-Type in headers",
+        },
+        json: {
+          description: "Value sent as a JSON request body for POST or PUT",
+        },
+        form: {
+          type: "object",
+          description: "Form fields sent as the request body for POST or PUT",
+          additionalProperties: { type: "string" },
+        },
+        form_encoding: {
+          type: "string",
+          enum: ["urlencoded", "multipart"],
+          description:
+            "Encode form as application/x-www-form-urlencoded (default) or multipart/form-data",
+        },
+        headers: {
+          type: "object",
+          description: "Optional custom headers to include in the request",
+          additionalProperties: { type: "string" },
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Request timeout in milliseconds (default: 30000)",
+          minimum: 1,
+        },
+        max_bytes: {
+          type: "number",
+          description:
+            "Maximum response body size in bytes, measured after decompression (default: server limit, 10 MB)",
+          minimum: 1,
+        },
+        on_max_bytes: {
+          type: "string",
+          enum: ["fail", "truncate"],
+          description:
+            "When the body exceeds max_bytes: fail with RESPONSE_TOO_LARGE (default) or truncate and add a warning",
+        },
+        bypass_cache: {
+          type: "boolean",
+          description:
+            "Fetch from the network even if a cached copy is available (default: false)",
+        },
+        max_retries: {
+          type: "integer",
+          description:
+            "Retries after a connection reset, 5xx or 429 response, with exponential backoff and Retry-After support (default: 2)",
+          minimum: 0,
+        },
+        max_redirects: {
+          type: "integer",
+          description:
+            "Maximum number of redirects to follow; more fail with REDIRECT_REFUSED (default: 20)",
+          minimum: 0,
+        },
+        allow_cross_origin_redirects: {
+          type: "boolean",
+          description:
+            "Follow redirects to a different scheme, host or port (default: true)",
+        },
+        allow_insecure_redirects: {
+          type: "boolean",
+          description: "Follow redirects from https:// to http:// (default: true)",
+        },
+        include_headers: {
+          type: "boolean",
+          description:
+            "Include the response headers (name → list of values) in the result (default: false, or true for HEAD)",
+        },
+        session: {
+          type: "string",
+          description:
+            "Named cookie session: its cookies are sent with the request and cookies set by the response are stored in it. Without a session, cookies only last for one call",
+        },
+        credentials: {
+          type: "string",
+          description:
+            "Name of a server-side credential profile (bearer token, basic auth, headers or cookies). It is only sent to the hosts the profile is scoped to, and its secrets are redacted from the result",
+        },
+        warc: WARC_PROPERTY,
+      },
+      required: ["url"],
+      additionalProperties: false,
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        html: { type: "string" },
+        status_code: { type: "number" },
+        content_type: { type: ["string", "null"] },
+        final_url: { type: "string" },
+        encoding: { type: "string" },
+        encoding_source: {
+          type: "string",
+          enum: ["bom", "content-type", "meta", "heuristic"],
+        },
+        redirects: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              url: { type: "string" },
+              status: { type: "number" },
+              location: { type: "string" },
+            },
+            required: ["url", "status", "location"],
+          },
+        },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "array", items: { type: "string" } },
+        },
+        timing: {
+          type: "object",
+          properties: {
+            ttfb_ms: { type: "number" },
+            total_ms: { type: "number" },
+            body_bytes: { type: "number" },
+          },
+          required: ["ttfb_ms", "total_ms", "body_bytes"],
+        },
+      },
+      required: [
+        "html",
+        "status_code",
+        "content_type",
+        "final_url",
+        "encoding",
+        "encoding_source",
+        "redirects",
+        "timing",
+      ],
+    }),
+    handler: fetchUrl,
+  }),
+  defineTool<ExtractMarkdownInput, ExtractMarkdownData>({
+    name: "extract_readable_markdown",
+    description:
+      "Convert HTML to readable Markdown, removing boilerplate, navigation, ads, and sidebars. The main content is chosen by readability scoring (text density, paragraphs, commas, link density and class/id hints). Returns markdown text, the content's outline (nested headings with anchors, URLs and word counts), word count, and the selector and score of the chosen node. Set chunk_size to split the Markdown into chunks under a token or character budget, paged by cursor, or section to return only the part under one heading. Set format to get the same content as plain text, sanitized HTML or a tree of typed blocks instead.",
+    inputSchema: {
+      ...HTML_OR_URL_INPUT,
+      properties: {
+        ...HTML_OR_URL_INPUT.properties,
+        content_selector: {
+          type: "string",
+          description:
+            "CSS selector of the main content container; every (outermost) match is converted instead of the scored main content. Falls back to scoring, with a warning, if nothing matches",
+        },
+        include_selectors: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "CSS selectors of elements to protect from boilerplate removal (e.g. a <header> holding the byline); elements containing them are kept too",
+        },
+        exclude_selectors: {
+          type: "array",
+          items: { type: "string" },
+          description: "CSS selectors of additional elements to remove",
+        },
+        base_url: {
+          type: "string",
+          description:
+            "URL that relative links and images in raw HTML are resolved against (a fetched page uses its final URL)",
+        },
+        keep_defaults: {
+          type: "boolean",
+          description:
+            "Also remove the default boilerplate (nav, header, footer, aside, forms, .comment, .sidebar, ads, aria-hidden, ...) (default: true). Scripts and styles are always removed",
+        },
+        chunk_size: {
+          type: "integer",
+          description:
+            "Split the Markdown into chunks of at most this many chunk_units, along heading and paragraph boundaries (code blocks and tables are never split). Off by default",
+          minimum: 1,
+        },
+        chunk_unit: {
+          type: "string",
+          enum: ["tokens", "characters"],
+          description: "Unit of chunk_size and chunk_overlap; tokens are estimated (default: tokens)",
+        },
+        chunk_overlap: {
+          type: "integer",
+          description:
+            "Amount of each chunk repeated at the start of the next, smaller than chunk_size (default: 0)",
+          minimum: 0,
+        },
+        max_chunks: {
+          type: "integer",
+          description:
+            "Chunks returned per call (default: 10). The rest are paged with meta.pagination.next_cursor",
+          minimum: 1,
+        },
+        cursor: {
+          type: "string",
+          description:
+            "meta.pagination.next_cursor from a previous call with the same input, to get the next chunks",
+        },
+        section: {
+          type: "string",
+          description:
+            "Return only the section under this heading (up to the next heading of equal or higher level). Matched ignoring case and whitespace; an exact match wins over the first heading containing the text",
+        },
+        section_pattern: {
+          type: "string",
+          description:
+            "Return only the section under the first heading matching this case-insensitive regular expression",
+        },
+        section_index: {
+          type: "integer",
+          description:
+            "Return only the section under this heading, counted from 0 among the whole page's headings (as listed with whole_page_headings)",
+          minimum: 0,
+        },
+        table_fallback: {
+          type: "string",
+          enum: ["html", "list"],
+          description:
+            "Data tables become GFM pipe tables; tables with spanned cells or nested tables, which pipe tables cannot represent, are kept as simplified HTML or turned into a bullet list per row (default: html)",
+        },
+        whole_page_headings: {
+          type: "boolean",
+          description:
+            "Build headings and outline from the whole page before boilerplate removal, instead of from the converted content (default: false)",
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text", "html", "blocks"],
+          description:
+            "Rendering of the content: markdown; text (plain prose, paragraphs separated by blank lines); html (the content subtree sanitized, attributes allow-listed); or blocks (typed blocks with their positions in the HTML). Chunking applies to markdown only (default: markdown)",
+        },
+      },
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        format: { type: "string", enum: ["markdown", "text", "html", "blocks"] },
+        markdown: { type: "string" },
+        text: { type: "string" },
+        html: { type: "string" },
+        blocks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: ["heading", "paragraph", "list", "code", "quote", "table", "image"],
+              },
+              position: {
+                type: "object",
+                properties: {
+                  start: { type: "integer" },
+                  end: { type: "integer" },
+                  line: { type: "integer" },
+                  column: { type: "integer" },
+                },
+                required: ["start", "end", "line", "column"],
+              },
+            },
+            required: ["type"],
+          },
+        },
+        headings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              level: { type: "number" },
+              text: { type: "string" },
+            },
+            required: ["level", "text"],
+          },
+        },
+        outline: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              level: { type: "integer" },
+              text: { type: "string" },
+              id: { type: "string" },
+              id_source: { type: "string", enum: ["page", "generated"] },
+              url: { type: "string" },
+              word_count: { type: "integer" },
+              children: {
+                type: "array",
+                items: { type: "object", description: "Nested outline node of the same shape" },
+              },
+            },
+            required: ["level", "text", "id", "id_source", "word_count", "children"],
+          },
+        },
+        word_count: { type: "number" },
+        main_content: {
+          type: "object",
+          properties: {
+            selector: { type: "string" },
+            score: { type: "number" },
+            merged: { type: "array", items: { type: "string" } },
+            method: { type: "string", enum: ["content_selector", "scoring", "fallback"] },
+          },
+          required: ["selector", "score", "merged", "method"],
+        },
+        chunks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "integer" },
+              heading_path: { type: "string" },
+              markdown: { type: "string" },
+              size: { type: "integer" },
+            },
+            required: ["index", "heading_path", "markdown", "size"],
+          },
+        },
+        total_chunks: { type: "integer" },
+        section: {
+          type: "object",
+          properties: {
+            index: { type: "integer" },
+            level: { type: "integer" },
+            text: { type: "string" },
+            path: { type: "array", items: { type: "string" } },
+          },
+          required: ["index", "level", "text", "path"],
+        },
+      },
+      required: ["format", "headings", "outline", "word_count"],
+    }),
+    handler: extractReadableMarkdown,
+  }),
+  defineTool<ExtractTablesInput, ExtractTablesData>({
+    name: "extract_tables",
+    description:
+      "Extract all data tables from HTML as structured JSON. Returns an array of tables with headers and rows. Layout tables are filtered out.",
+    inputSchema: HTML_OR_URL_INPUT,
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        tables: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              headers: { type: "array", items: { type: "string" } },
+              rows: {
+                type: "array",
+                items: { type: "array", items: { type: "string" } },
+              },
+              caption: { type: "string" },
+            },
+            required: ["headers", "rows"],
+          },
+        },
+        count: { type: "number" },
+      },
+      required: ["tables", "count"],
+    }),
+    handler: extractTables,
+  }),
+  defineTool<ExtractMetadataInput, ExtractMetadataData>({
+    name: "extract_metadata",
+    description:
+      "Extract metadata from HTML including: canonical URL, title, description, Open Graph tags, JSON-LD structured data (best-effort), author, and publish date.",
+    inputSchema: HTML_OR_URL_INPUT,
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        description: { type: "string" },
+        canonical_url: { type: "string" },
+        author: { type: "string" },
+        publish_date: { type: "string" },
+        open_graph: {
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+        json_ld: { type: "array" },
+        meta_tags: {
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+      },
+      required: ["open_graph", "json_ld", "meta_tags"],
+    }),
+    handler: extractMetadata,
+  }),
+  defineTool<ListCookiesInput, ListCookiesData>({
+    name: "list_cookies",
+    description:
+      "List the cookies stored in a named cookie session, optionally only those that would be sent to a URL.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session: SESSION_PROPERTY,
+        url: {
+          type: "string",
+          description: "Only list the cookies that would be sent to this URL",
+        },
+      },
+      required: ["session"],
+      additionalProperties: false,
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        session: { type: "string" },
+        cookies: { type: "array", items: COOKIE_SCHEMA },
+      },
+      required: ["session", "cookies"],
+    }),
+    handler: listCookies,
+  }),
+  defineTool<SetCookiesInput, SetCookiesData>({
+    name: "set_cookies",
+    description:
+      "Add cookies to a named cookie session (created if needed) as if the given URL had set them. Cookies the URL could not set are rejected with a reason.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session: SESSION_PROPERTY,
+        url: {
+          type: "string",
+          description: "URL the cookies are set for (http:// or https://)",
+        },
+        cookies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              value: { type: "string" },
+              domain: {
+                type: "string",
+                description:
+                  "Also send the cookie to subdomains of this domain (default: host-only)",
+              },
+              path: { type: "string", description: "Cookie path (default: derived from url)" },
+              expires: {
+                type: "string",
+                description: "Expiry date (ISO-8601 or HTTP date); omit for a session cookie",
+              },
+              max_age: {
+                type: "integer",
+                description: "Lifetime in seconds; takes precedence over expires",
+              },
+              secure: { type: "boolean" },
+              http_only: { type: "boolean" },
+              same_site: { type: "string", enum: ["Strict", "Lax", "None"] },
+            },
+            required: ["name", "value"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["session", "url", "cookies"],
+      additionalProperties: false,
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        session: { type: "string" },
+        stored: { type: "number" },
+        rejected: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              reason: { type: "string" },
+            },
+            required: ["name", "reason"],
+          },
+        },
+      },
+      required: ["session", "stored", "rejected"],
+    }),
+    handler: setCookies,
+  }),
+  defineTool<ClearCookiesInput, ClearCookiesData>({
+    name: "clear_cookies",
+    description:
+      "Remove the cookies of a named cookie session for one domain (and its subdomains), or delete the whole session.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session: SESSION_PROPERTY,
+        domain: {
+          type: "string",
+          description: "Only remove cookies for this domain; omit to delete the session",
+        },
+      },
+      required: ["session"],
+      additionalProperties: false,
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      properties: {
+        session: { type: "string" },
+        removed: { type: "number" },
+      },
+      required: ["session", "removed"],
+    }),
+    handler: clearCookies,
+  }),
+  defineTool<ExtractFromWarcInput, ExtractFromWarcData>({
+    name: "extract_from_warc",
+    description:
+      "Read a page back from a WARC file in the server's WARC directory and run fetch_url or one of the extractors over it, without network access. Archived redirects are followed. Returns the extractor's result, with the WARC records used and the original fetch time in meta.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        warc: {
+          type: "string",
+          description: "Name of the WARC file (.warc or .warc.gz) in the server's WARC directory",
+        },
+        url: {
+          type: "string",
+          description: "URL of the archived page",
+        },
+        extractor: {
+          type: "string",
+          enum: ["fetch_url", "extract_readable_markdown", "extract_tables", "extract_metadata"],
+          description: "Tool to run over the page (default: extract_readable_markdown)",
+        },
+      },
+      required: ["warc", "url"],
+      additionalProperties: false,
+    },
+    outputSchema: envelopeSchema({
+      type: "object",
+      description: "The data returned by the chosen extractor",
+    }),
+    handler: extractFromWarc,
+  }),
+];
+
+/**
+ * Look up a tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
+
+/**
+ * Tool descriptors as advertised by `tools/list` (everything but the handler)
+ */
+export function listTools(): Array<Omit<ToolDefinition, "handler">> {
+  return TOOLS.map(({ name, description, inputSchema, outputSchema }) => ({
+    name,
+    description,
+    inputSchema,
+    outputSchema,
+  }));
+}
+
+/**
+ * Run a tool and return its response envelope. Arguments are validated
+ * against the tool's input schema first; unexpected exceptions are
+ * converted into an INTERNAL_ERROR envelope.
+ *
+ * @param context - Identifies the calling client (scopes cookie sessions)
+ */
+export async function runTool(
+  tool: ToolDefinition,
+  args: Record<string, unknown> | undefined,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<unknown>> {
+  const input = args ?? {};
+
+  const issues = validateAgainstSchema(input, tool.inputSchema);
+  if (issues.length > 0) {
+    const summary = issues
+      .map((issue) => `${issue.path} ${issue.message}`)
+      .join("; ");
+    return createErrorResponse(
+      "INVALID_INPUT",
+      `Invalid arguments for ${tool.name}: ${summary}`,
+      { tool: tool.name, errors: issues }
+    );
+  }
+
+  try {
+    return await tool.handler(input as never, context);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return createErrorResponse("INTERNAL_ERROR", errorMessage);
+  }
+}
+
+/**
+ * Format a response envelope as an MCP tool result. Error envelopes are
+ * flagged with `isError`; success envelopes are also returned as
+ * `structuredContent` to match the advertised output schema.
+ */
+export function toCallToolResult(result: Response<unknown>): CallToolResult {
+  const callResult: CallToolResult = {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+
+  if (result.ok) {
+    callResult.structuredContent = result as unknown as Record<string, unknown>;
+  } else {
+    callResult.isError = true;
+  }
+
+  return callResult;
+}
@@ -0,0 +1,169 @@
+import type { JsonSchema } from "../types.js";
+
+/**
+ * A single field-level validation failure
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  expected: string;
+  received?: unknown;
+}
+
+/** Longest string echoed back in `received` before it is truncated */
+const MAX_RECEIVED_LENGTH = 100;
+
+/**
+ * Describe the JSON type of a value using JSON Schema type names
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * Check a value against a single JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") {
+    return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  }
+  return actual === type;
+}
+
+/**
+ * Shorten large received values (e.g. raw HTML) so errors stay readable
+ */
+function summarize(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_RECEIVED_LENGTH) {
+    return `${value.slice(0, MAX_RECEIVED_LENGTH)}... (${value.length} chars)`;
+  }
+  return value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path,
+        message: `must be ${types.join(" or ")}`,
+        expected: types.join(" | "),
+        received: summarize(value),
+      });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({
+      path,
+      message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+      expected: schema.enum.map((option) => JSON.stringify(option)).join(" | "),
+      received: summarize(value),
+    });
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      issues.push({
+        path,
+        message: `must be >= ${schema.minimum}`,
+        expected: `number >= ${schema.minimum}`,
+        received: value,
+      });
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      issues.push({
+        path,
+        message: `must be <= ${schema.maximum}`,
+        expected: `number <= ${schema.maximum}`,
+        received: value,
+      });
+    }
+  }
+
+  if (typeof value === "string" && typeof schema.minLength === "number" && value.length < schema.minLength) {
+    issues.push({
+      path,
+      message: `must be at least ${schema.minLength} characters long`,
+      expected: `string with length >= ${schema.minLength}`,
+      received: summarize(value),
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      validateValue(item, schema.items as JsonSchema, childPath(path, index), issues);
+    });
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        const expected = properties[key]?.type;
+        issues.push({
+          path: childPath(path, key),
+          message: "is required",
+          expected: Array.isArray(expected) ? expected.join(" | ") : expected ?? "any",
+        });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (propertyValue === undefined) continue;
+
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        validateValue(propertyValue, propertySchema, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: childPath(path, key),
+          message: "is not a recognized property",
+          expected: Object.keys(properties).join(" | ") || "no properties",
+          received: summarize(propertyValue),
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateValue(propertyValue, schema.additionalProperties, childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used by tool schemas
+ * (type, enum, properties, required, additionalProperties, items, minimum,
+ * maximum, minLength). Returns every issue found rather than stopping at the
+ * first one.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(value, schema, "$", issues);
+  return issues;
+}
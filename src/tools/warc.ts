@@ -0,0 +1,43 @@
+import type {
+  ExtractFromWarcData,
+  ExtractFromWarcInput,
+  Response,
+  ToolContext,
+} from "../types.js";
+import { LOCAL_CONTEXT } from "../net/sessions.js";
+import { createErrorResponse, fetchUrl, isValidUrl } from "./fetch.js";
+import { extractReadableMarkdown } from "./markdown.js";
+import { extractTables } from "./tables.js";
+import { extractMetadata } from "./metadata.js";
+
+/**
+ * Run an extractor over a page archived in a WARC file, without network
+ * access. Archived redirects are followed; the tool's response is the
+ * extractor's, with the records it read in `meta.warc`.
+ */
+export async function extractFromWarc(
+  input: ExtractFromWarcInput,
+  context: ToolContext = LOCAL_CONTEXT
+): Promise<Response<ExtractFromWarcData>> {
+  const { warc, url, extractor = "extract_readable_markdown" } = input;
+
+  if (!isValidUrl(url)) {
+    return createErrorResponse(
+      "INVALID_INPUT",
+      "Invalid URL format. Must be a valid HTTP or HTTPS URL.",
+      { url }
+    );
+  }
+
+  const offline: ToolContext = { ...context, warcSource: warc };
+  switch (extractor) {
+    case "fetch_url":
+      return fetchUrl({ url, include_headers: true }, offline);
+    case "extract_tables":
+      return extractTables({ html_or_url: url }, offline);
+    case "extract_metadata":
+      return extractMetadata({ html_or_url: url }, offline);
+    default:
+      return extractReadableMarkdown({ html_or_url: url }, offline);
+  }
+}
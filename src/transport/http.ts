@@ -1,21 +1,16 @@
 /**
  * HTTP transport for webpage-extract MCP server
- * Uses stateless JSON-RPC handling without sessions
+ * Uses stateless JSON-RPC handling. `initialize` issues an Mcp-Session-Id
+ * that clients send back to keep their cookie sessions across requests.
  */
 
+import { randomUUID } from "node:crypto";
 import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
-import {
-  fetchUrl,
-  extractReadableMarkdown,
-  extractTables,
-  extractMetadata,
-} from "../tools/index.js";
-import type {
-  FetchUrlInput,
-  ExtractMarkdownInput,
-  ExtractTablesInput,
-  ExtractMetadataInput,
-} from "../types.js";
+import { getTool, listTools, runTool, toCallToolResult } from "../tools/registry.js";
+import type { ToolContext } from "../types.js";
+
+/** Header identifying the client across requests (MCP Streamable HTTP) */
+const SESSION_HEADER = "mcp-session-id";
 
 /**
  * MCP JSON-RPC request
@@ -45,88 +40,13 @@ interface HttpTransportOptions {
   port: number;
 }
 
-/**
- * Tool definitions for the MCP server
- */
-const toolDefinitions = [
-  {
-    name: "fetch_url",
-    description:
-      "Fetch raw HTML from a URL with optional custom headers and timeout. Returns the HTML content, status code, content type, and final URL (after redirects).",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        url: {
-          type: "string",
-          description: "The URL to fetch (must be http:// or https://)",
-        },
-        headers: {
-          type: "object",
-          description: "Optional custom headers to include in the request",
-          additionalProperties: { type: "string" },
-        },
-        timeout_ms: {
-          type: "number",
-          description: "Request timeout in milliseconds (default: 30000)",
-        },
-      },
-      required: ["url"],
-    },
-  },
-  {
-    name: "extract_readable_markdown",
-    description:
-      "Convert HTML to readable Markdown, removing boilerplate, navigation, ads, and sidebars. Focuses on the main content. Returns markdown text, document headings, and word count.",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        html_or_url: {
-          type: "string",
-          description:
-            "Either a URL to fetch (http:// or https://) or raw HTML content",
-        },
-      },
-      required: ["html_or_url"],
-    },
-  },
-  {
-    name: "extract_tables",
-    description:
-      "Extract all data tables from HTML as structured JSON. Returns an array of tables with headers and rows. Layout tables are filtered out.",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        html_or_url: {
-          type: "string",
-          description:
-            "Either a URL to fetch (http:// or https://) or raw HTML content",
-        },
-      },
-      required: ["html_or_url"],
-    },
-  },
-  {
-    name: "extract_metadata",
-    description:
-      "Extract metadata from HTML including: canonical URL, title, description, Open Graph tags, JSON-LD structured data (best-effort), author, and publish date.",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        html_or_url: {
-          type: "string",
-          description:
-            "Either a URL to fetch (http:// or https://) or raw HTML content",
-        },
-      },
-      required: ["html_or_url"],
-    },
-  },
-];
-
 /**
  * Handle a single JSON-RPC request
  */
-async function handleJsonRpcRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+async function handleJsonRpcRequest(
+  request: JsonRpcRequest,
+  context: ToolContext
+): Promise<JsonRpcResponse> {
   const { id, method, params } = request;
 
   try {
@@ -153,7 +73,7 @@ async function handleJsonRpcRequest(request: JsonRpcRequest): Promise<JsonRpcRes
           jsonrpc: "2.0",
           id,
           result: {
-            tools: toolDefinitions,
+            tools: listTools(),
           },
         };
       }
@@ -162,51 +82,22 @@ async function handleJsonRpcRequest(request: JsonRpcRequest): Promise<JsonRpcRes
         const toolName = params?.name as string;
         const args = params?.arguments as Record<string, unknown>;
 
-        let result: unknown;
-
-        switch (toolName) {
-          case "fetch_url": {
-            result = await fetchUrl(args as unknown as FetchUrlInput);
-            break;
-          }
-
-          case "extract_readable_markdown": {
-            result = await extractReadableMarkdown(args as unknown as ExtractMarkdownInput);
-            break;
-          }
-
-          case "extract_tables": {
-            result = await extractTables(args as unknown as ExtractTablesInput);
-            break;
-          }
-
-          case "extract_metadata": {
-            result = await extractMetadata(args as unknown as ExtractMetadataInput);
-            break;
-          }
-
-          default:
-            return {
-              jsonrpc: "2.0",
-              id,
-              error: {
-                code: -32601,
-                message: `Unknown tool: ${toolName}`,
-              },
-            };
+        const tool = getTool(toolName);
+        if (!tool) {
+          return {
+            jsonrpc: "2.0",
+            id,
+            error: {
+              code: -32601,
+              message: `Unknown tool: ${toolName}`,
+            },
+          };
         }
 
         return {
           jsonrpc: "2.0",
           id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          },
+          result: toCallToolResult(await runTool(tool, args, context)),
         };
       }
 
@@ -248,9 +139,15 @@ function readBody(req: IncomingMessage): Promise<string> {
 /**
  * Send a JSON response
  */
-function sendJson(res: ServerResponse, statusCode: number, data: unknown): void {
+function sendJson(
+  res: ServerResponse,
+  statusCode: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): void {
   const body = JSON.stringify(data);
   res.writeHead(statusCode, {
+    ...headers,
     "Content-Type": "application/json",
     "Content-Length": Buffer.byteLength(body),
   });
@@ -303,8 +200,16 @@ async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Prom
       return;
     }
 
-    const response = await handleJsonRpcRequest(request);
-    sendJson(res, 200, response);
+    // Requests without a session id get a throwaway client, so their named
+    // cookie sessions do not outlive the request
+    const header = req.headers[SESSION_HEADER];
+    const sessionId =
+      (typeof header === "string" && header) ||
+      (request.method === "initialize" ? randomUUID() : undefined);
+    const context = { clientId: sessionId ?? randomUUID() };
+
+    const response = await handleJsonRpcRequest(request, context);
+    sendJson(res, 200, response, sessionId ? { "Mcp-Session-Id": sessionId } : {});
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     sendJson(res, 500, {
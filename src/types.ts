@@ -23,8 +23,13 @@ export type Response<T> = SuccessResponse<T> | ErrorResponse;
 
 export type ErrorCode =
   | "INVALID_INPUT"
+  | "BLOCKED_DESTINATION"
   | "UPSTREAM_ERROR"
+  | "RESPONSE_TOO_LARGE"
   | "RATE_LIMITED"
+  | "ROBOTS_DISALLOWED"
+  | "REPLAY_MISS"
+  | "REDIRECT_REFUSED"
   | "TIMEOUT"
   | "PARSE_ERROR"
   | "INTERNAL_ERROR";
@@ -36,15 +41,93 @@ export interface ResponseMeta {
     next_cursor: string | null;
   };
   warnings: string[];
+  /** Whether a fetched page came from the response cache */
+  cache?: CacheStatus;
+  /** Number of HTTP requests made (0 for a cache hit) */
+  attempts?: number;
+  /** Total time spent waiting between retries */
+  retry_wait_ms?: number;
+  /** Proxy the page was fetched through, without credentials */
+  proxy?: string;
+  /** WARC file the exchanges were archived to or read from */
+  warc?: WarcMeta;
+  /** When a page read from a WARC file was originally fetched (its WARC-Date) */
+  archived_at?: string;
 }
 
+/**
+ * A WARC file and the records of it that a call wrote or read
+ */
+export interface WarcMeta {
+  file: string;
+  /** WARC-Record-IDs, in file order */
+  records: string[];
+}
+
+/**
+ * Response cache outcome: served fresh from cache, served from cache after a
+ * 304 revalidation, or fetched from the network
+ */
+export type CacheStatus = "hit" | "revalidated" | "miss";
+
 /**
  * fetch_url tool types
  */
+/**
+ * HTTP methods fetch_url can send
+ */
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT";
+
 export interface FetchUrlInput {
   url: string;
+  /** Request method (default: "GET") */
+  method?: HttpMethod;
+  /** Raw request body (POST and PUT only) */
+  body?: string;
+  /** Value sent as a JSON request body (POST and PUT only) */
+  json?: unknown;
+  /** Form fields sent as the request body (POST and PUT only) */
+  form?: Record<string, string>;
+  /** How `form` is encoded (default: "urlencoded") */
+  form_encoding?: "urlencoded" | "multipart";
+  /** Named cookie session to send cookies from and store new ones in */
+  session?: string;
+  /** Name of a server-side credential profile to authenticate with */
+  credentials?: string;
+  /** WARC file under WARC_DIR to append every request and response to */
+  warc?: string;
   headers?: Record<string, string>;
   timeout_ms?: number;
+  /** Maximum decompressed body size in bytes (defaults to the server limit) */
+  max_bytes?: number;
+  /** What to do when the body exceeds `max_bytes` (default: "fail") */
+  on_max_bytes?: "fail" | "truncate";
+  /** Skip the cache lookup (the fresh response is still stored) */
+  bypass_cache?: boolean;
+  /** Retries after a transient failure (defaults to the server setting) */
+  max_retries?: number;
+  /** Maximum number of redirects followed (default: 20) */
+  max_redirects?: number;
+  /** Follow redirects to a different origin (default: true) */
+  allow_cross_origin_redirects?: boolean;
+  /** Follow redirects from https:// to http:// (default: true) */
+  allow_insecure_redirects?: boolean;
+  /**
+   * Return the response headers in `FetchUrlData.headers` (default: false,
+   * or true for HEAD requests)
+   */
+  include_headers?: boolean;
+}
+
+/**
+ * One redirect followed while fetching a URL
+ */
+export interface RedirectHop {
+  /** URL that returned the redirect */
+  url: string;
+  status: number;
+  /** Redirect target, resolved against `url` */
+  location: string;
 }
 
 export interface FetchUrlData {
@@ -52,19 +135,209 @@ export interface FetchUrlData {
   status_code: number;
   content_type: string | null;
   final_url: string;
+  /** Character encoding the body was decoded with (WHATWG name) */
+  encoding: string;
+  /** How the encoding was determined */
+  encoding_source: EncodingSource;
+  /** Redirects followed before reaching `final_url`, in order */
+  redirects: RedirectHop[];
+  /**
+   * Response headers by lower-cased name, one entry per header line (only
+   * with `include_headers`). Repeated headers other than Set-Cookie are
+   * combined into one comma-separated value.
+   */
+  headers?: Record<string, string[]>;
+  timing: FetchTiming;
 }
 
 /**
- * extract_readable_markdown tool types
+ * Timing breakdown of a fetch, measured from the start of the tool call
+ */
+export interface FetchTiming {
+  /** Time until the final response's headers arrived (or the cache was read) */
+  ttfb_ms: number;
+  /** Time until the body had been read and decoded */
+  total_ms: number;
+  /** Size of the (decompressed) body in bytes */
+  body_bytes: number;
+}
+
+/**
+ * How the character encoding of a response body was determined
+ */
+export type EncodingSource = "bom" | "content-type" | "meta" | "heuristic";
+
+/**
+ * Input shared by the tools that accept either a URL or raw HTML
  */
-export interface ExtractMarkdownInput {
+export interface HtmlOrUrlInput {
   html_or_url: string;
+  /** Skip the response cache when fetching a URL */
+  bypass_cache?: boolean;
+  /** Named cookie session used when fetching a URL */
+  session?: string;
+  /** Name of a server-side credential profile used when fetching a URL */
+  credentials?: string;
+  /** WARC file under WARC_DIR that the fetched exchanges are appended to */
+  warc?: string;
+}
+
+/**
+ * extract_readable_markdown tool types
+ */
+export interface ExtractMarkdownInput extends HtmlOrUrlInput {
+  /** Convert the elements matching this selector instead of scoring the page */
+  content_selector?: string;
+  /** Elements never removed as boilerplate (nor their ancestors and descendants) */
+  include_selectors?: string[];
+  /** Additional elements to remove */
+  exclude_selectors?: string[];
+  /** Apply the default boilerplate filter (default: true) */
+  keep_defaults?: boolean;
+  /** URL that relative links in raw HTML input are resolved against */
+  base_url?: string;
+  /** Split the Markdown into chunks of at most this many `chunk_unit`s */
+  chunk_size?: number;
+  /** Unit of chunk_size and chunk_overlap (default: tokens) */
+  chunk_unit?: "tokens" | "characters";
+  /** Amount of each chunk repeated at the start of the next (default: 0) */
+  chunk_overlap?: number;
+  /** Chunks returned per call (default: 10); the rest are paged by cursor */
+  max_chunks?: number;
+  /** `meta.pagination.next_cursor` of the previous call, to get the next chunks */
+  cursor?: string;
+  /** Return only the section under the heading with this text */
+  section?: string;
+  /** Return only the section under the first heading matching this regex */
+  section_pattern?: string;
+  /** Return only the section under this heading (an index into the page's `headings`) */
+  section_index?: number;
+  /** Take headings and outline from the whole page, as before boilerplate removal */
+  whole_page_headings?: boolean;
+  /** Rendering of tables with spanned cells or nested tables (default: html) */
+  table_fallback?: "html" | "list";
+  /** Output format of the content (default: markdown) */
+  format?: ContentFormat;
 }
 
+/**
+ * Renderings of the selected content
+ */
+export type ContentFormat = "markdown" | "text" | "html" | "blocks";
+
 export interface ExtractMarkdownData {
-  markdown: string;
+  format: ContentFormat;
+  /** The content as Markdown (markdown format) */
+  markdown?: string;
+  /** The content as plain text, paragraphs separated by blank lines (text format) */
+  text?: string;
+  /** The content as sanitized HTML (html format) */
+  html?: string;
+  /** The content as typed blocks (blocks format) */
+  blocks?: ContentBlock[];
+  /** The outline's headings in document order */
   headings: Heading[];
+  /** Headings of the converted content, nested by level */
+  outline: OutlineNode[];
+  word_count: number;
+  /** The block chosen as the main content (HTML input without a section) */
+  main_content?: MainContentInfo;
+  /** The section returned, when one was asked for */
+  section?: SectionInfo;
+  /** This page of chunks, when chunk_size is set */
+  chunks?: MarkdownChunk[];
+  /** Number of chunks in the whole document, when chunk_size is set */
+  total_chunks?: number;
+}
+
+/**
+ * Where a block came from in the HTML (as decoded): character offsets, the
+ * end exclusive, and the 1-based line and column of its start
+ */
+export interface SourcePosition {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+export interface ListItem {
+  text: string;
+  /** Task list state, for items with a checkbox */
+  checked?: boolean;
+  /** Items of a list nested in this one */
+  items?: ListItem[];
+  /** Whether the nested list is ordered (set with `items`) */
+  ordered?: boolean;
+}
+
+/**
+ * A block of content in the blocks format
+ */
+export type ContentBlock = (
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: ListItem[] }
+  | { type: "code"; language?: string; text: string }
+  | { type: "quote"; text: string }
+  | ({ type: "table" } & TableData)
+  | { type: "image"; src: string; alt: string; title?: string }
+) & { position?: SourcePosition };
+
+/**
+ * A heading in the outline, with the sections nested under it
+ */
+export interface OutlineNode {
+  level: number;
+  text: string;
+  /** Fragment id: the page's own, or a slug generated from the text */
+  id: string;
+  id_source: "page" | "generated";
+  /** Absolute URL of the heading (when the document's URL is known) */
+  url?: string;
+  /** Words in the section, subsections included, heading excluded */
   word_count: number;
+  children: OutlineNode[];
+}
+
+/**
+ * Where a requested section sits in the page's outline
+ */
+export interface SectionInfo {
+  /** Index of its heading in `headings` */
+  index: number;
+  level: number;
+  text: string;
+  /** Texts of the enclosing headings, outermost first */
+  path: string[];
+}
+
+/**
+ * A chunk of the Markdown under the caller's budget
+ */
+export interface MarkdownChunk {
+  /** Position of the chunk in the whole document, from 0 */
+  index: number;
+  /** Enclosing headings, e.g. "Install > Linux" ("" before the first heading) */
+  heading_path: string;
+  /** The chunk, starting with the overlap repeated from the previous one */
+  markdown: string;
+  /** Size of `markdown` in chunk_unit (tokens are estimated) */
+  size: number;
+}
+
+/**
+ * Which node was converted, for debugging extractions
+ */
+export interface MainContentInfo {
+  /** CSS selector path of the chosen node */
+  selector: string;
+  /** Its readability score (0 unless chosen by scoring) */
+  score: number;
+  /** Selector paths of sibling blocks merged in, in document order */
+  merged: string[];
+  /** Chosen by `content_selector`, by scoring, or as the fallback */
+  method: "content_selector" | "scoring" | "fallback";
 }
 
 export interface Heading {
@@ -75,9 +348,7 @@ export interface Heading {
 /**
  * extract_tables tool types
  */
-export interface ExtractTablesInput {
-  html_or_url: string;
-}
+export interface ExtractTablesInput extends HtmlOrUrlInput {}
 
 export interface TableData {
   headers: string[];
@@ -93,9 +364,7 @@ export interface ExtractTablesData {
 /**
  * extract_metadata tool types
  */
-export interface ExtractMetadataInput {
-  html_or_url: string;
-}
+export interface ExtractMetadataInput extends HtmlOrUrlInput {}
 
 export interface OpenGraphData {
   title?: string;
@@ -117,3 +386,136 @@ export interface ExtractMetadataData {
   json_ld: unknown[];
   meta_tags: Record<string, string>;
 }
+
+/**
+ * Cookie tool types
+ */
+export interface CookieData {
+  name: string;
+  value: string;
+  domain: string;
+  /** True if the cookie is only sent to `domain` itself, not its subdomains */
+  host_only: boolean;
+  path: string;
+  /** Expiry as an ISO-8601 timestamp, or null for a session cookie */
+  expires: string | null;
+  secure: boolean;
+  http_only: boolean;
+  same_site?: "Strict" | "Lax" | "None";
+}
+
+export interface ListCookiesInput {
+  session: string;
+  /** Only list the cookies that would be sent to this URL */
+  url?: string;
+}
+
+export interface ListCookiesData {
+  session: string;
+  cookies: CookieData[];
+}
+
+export interface CookieInput {
+  name: string;
+  value: string;
+  /** Domain to share the cookie with subdomains of; omit for host-only */
+  domain?: string;
+  path?: string;
+  /** Expiry as an ISO-8601 timestamp or HTTP-date */
+  expires?: string;
+  /** Lifetime in seconds (takes precedence over `expires`) */
+  max_age?: number;
+  secure?: boolean;
+  http_only?: boolean;
+  same_site?: "Strict" | "Lax" | "None";
+}
+
+export interface SetCookiesInput {
+  session: string;
+  /** URL the cookies are set for, as if it had sent them */
+  url: string;
+  cookies: CookieInput[];
+}
+
+export interface SetCookiesData {
+  session: string;
+  stored: number;
+  rejected: Array<{ name: string; reason: string }>;
+}
+
+export interface ClearCookiesInput {
+  session: string;
+  /** Only remove cookies for this domain and its subdomains */
+  domain?: string;
+}
+
+export interface ClearCookiesData {
+  session: string;
+  removed: number;
+}
+
+/**
+ * extract_from_warc tool types
+ */
+/**
+ * Tools extract_from_warc can run over an archived page
+ */
+export type WarcExtractor =
+  | "fetch_url"
+  | "extract_readable_markdown"
+  | "extract_tables"
+  | "extract_metadata";
+
+export interface ExtractFromWarcInput {
+  /** WARC file under WARC_DIR */
+  warc: string;
+  /** URL of the archived page */
+  url: string;
+  /** Tool to run over the page (default: "extract_readable_markdown") */
+  extractor?: WarcExtractor;
+}
+
+export type ExtractFromWarcData =
+  | FetchUrlData
+  | ExtractMarkdownData
+  | ExtractTablesData
+  | ExtractMetadataData;
+
+/**
+ * Minimal JSON Schema shape used for tool input/output schemas
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+  enum?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Information about the caller, supplied by the transport with every tool call
+ */
+export interface ToolContext {
+  /** Identifies the MCP client; cookie sessions are scoped to it */
+  clientId: string;
+  /**
+   * WARC file under WARC_DIR to read URLs from instead of the network (set by
+   * extract_from_warc)
+   */
+  warcSource?: string;
+}
+
+/**
+ * A tool exposed by the server. Every transport is built from the same
+ * list of definitions so tools only have to be declared once.
+ */
+export interface ToolDefinition<I = never, O = unknown> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+  outputSchema: JsonSchema & { type: "object" };
+  handler: (input: I, context: ToolContext) => Promise<Response<O>>;
+}
@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { fileURLToPath } from "node:url";
 import { createServer } from "../../src/server.js";
+import { configure, getConfig } from "../../src/config.js";
+import { resetFixtureStores } from "../../src/net/replay.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+import { extractMetadata } from "../../src/tools/metadata.js";
+import { extractTables } from "../../src/tools/tables.js";
 
 describe("MCP Server E2E Tests", () => {
   let server: Server;
@@ -299,4 +306,47 @@ describe("MCP Server E2E Tests", () => {
       }
     });
   });
+
+  describe("Replayed Fixtures", () => {
+    const originalConfig = getConfig();
+
+    beforeAll(() => {
+      resetFixtureStores();
+      configure({
+        fetchMode: "replay",
+        fixturesPath: fileURLToPath(new URL("../fixtures/recordings/example.har", import.meta.url)),
+      });
+    });
+
+    afterAll(() => {
+      configure(originalConfig);
+      resetFixtureStores();
+    });
+
+    it("should run every extractor on a recorded page without the network", async () => {
+      const url = "http://example.com/articles/replay";
+      const markdownResult = await extractReadableMarkdown({ html_or_url: url });
+      const tablesResult = await extractTables({ html_or_url: url });
+      const metadataResult = await extractMetadata({ html_or_url: url });
+
+      expect(markdownResult.ok).toBe(true);
+      if (markdownResult.ok) {
+        expect(markdownResult.data.markdown).toContain("# Replaying Fixtures");
+        expect(markdownResult.data.markdown).not.toContain("Copyright");
+      }
+      expect(tablesResult.ok && tablesResult.data.tables[0].headers).toEqual(["Mode", "Network"]);
+      expect(metadataResult.ok && metadataResult.data.description).toBe(
+        "Pinning real pages for offline tests"
+      );
+    });
+
+    it("should report unrecorded URLs as REPLAY_MISS", async () => {
+      const result = await fetchUrl({ url: "https://example.com/not-recorded" });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("REPLAY_MISS");
+      }
+    });
+  });
 });
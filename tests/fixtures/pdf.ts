@@ -0,0 +1,40 @@
+/**
+ * Build a minimal PDF with one Helvetica text line per entry on each page
+ */
+export function makePdf(pages: string[][], info: Record<string, string> = {}): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add(""); // catalog, filled in below
+  add(""); // page tree, filled in below
+  const font = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  const kids = pages.map((lines) => {
+    const content = lines
+      .map((line, i) => `BT /F1 12 Tf 72 ${720 - i * 16} Td (${line}) Tj ET`)
+      .join("\n");
+    const stream = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+        `/Resources << /Font << /F1 ${font} 0 R >> >> /Contents ${stream} 0 R >>`
+    );
+  });
+  objects[0] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[1] = `<< /Type /Pages /Kids [${kids.map((id) => `${id} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+  const infoId = add(
+    `<< ${Object.entries(info).map(([key, value]) => `/${key} (${value})`).join(" ")} >>`
+  );
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\n`;
+  out += `startxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
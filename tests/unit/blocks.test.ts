@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import * as cheerio from "cheerio";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+import { sanitizeHtml } from "../../src/formats/html.js";
+import type { ExtractMarkdownData, ExtractMarkdownInput } from "../../src/types.js";
+
+const PAGE = `<html><body>
+<nav>Home | Docs</nav>
+<main>
+<h2 id="setup" class="title">Setup</h2>
+<p onclick="track()">Install the <b>package</b>.<br>Then <a href="/run" style="color:red">run it</a>.</p>
+<ul><li><input type="checkbox" checked> Done<ul><li>Nested</li></ul></li><li><input type="checkbox"> Todo</li></ul>
+<pre><code class="language-sh hljs">npm install</code></pre>
+<blockquote><p>Quoted</p></blockquote>
+<table><tr><th>Key</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>
+<img src="/logo.png" alt="Logo">
+<script>alert(1)</script>
+</main>
+</body></html>`;
+
+async function extract(input: Partial<ExtractMarkdownInput>): Promise<ExtractMarkdownData> {
+  const result = await extractReadableMarkdown({
+    html_or_url: PAGE,
+    content_selector: "main",
+    base_url: "https://example.com/guide",
+    ...input,
+  });
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.data;
+}
+
+describe("extractReadableMarkdown output formats", () => {
+  it("should return Markdown by default", async () => {
+    const data = await extract({});
+
+    expect(data.format).toBe("markdown");
+    expect(data.markdown).toContain("## Setup");
+    expect(data.text).toBeUndefined();
+  });
+
+  it("should render plain text with paragraph breaks", async () => {
+    const data = await extract({ format: "text" });
+
+    expect(data.markdown).toBeUndefined();
+    expect(data.text).toBe(
+      [
+        "Setup",
+        "",
+        "Install the package.\nThen run it.",
+        "",
+        "- [x] Done\n  - Nested\n- [ ] Todo",
+        "",
+        "npm install",
+        "",
+        "Quoted",
+        "",
+        "Key | Value\na | 1",
+      ].join("\n")
+    );
+    expect(data.word_count).toBe(25);
+    expect(data.headings).toEqual([{ level: 2, text: "Setup" }]);
+  });
+
+  it("should number nested lists by their own type", async () => {
+    const data = await extract({
+      html_or_url:
+        "<main><ol><li>Install<ul><li>npm</li><li>yarn</li></ul></li></ol><ul><li>Notes<ol><li>First</li><li>Second</li></ol></li></ul></main>",
+      format: "text",
+    });
+
+    expect(data.text).toBe(
+      ["1. Install", "  - npm", "  - yarn", "", "- Notes", "  1. First", "  2. Second"].join("\n")
+    );
+  });
+
+  it("should sanitize the content subtree for the html format", async () => {
+    const { html } = await extract({ format: "html" });
+
+    expect(html).toContain('<h2 id="setup">Setup</h2>');
+    expect(html).toContain('<a href="https://example.com/run">run it</a>');
+    expect(html).toContain('<code class="language-sh">npm install</code>');
+    expect(html).toContain('<input type="checkbox" checked="">');
+    expect(html).toContain('<img src="https://example.com/logo.png" alt="Logo">');
+    expect(html).not.toMatch(/onclick|style=|<script|<nav|Home/);
+  });
+
+  it("should keep only relative, http(s) and mailto URLs in sanitized HTML", () => {
+    const $ = cheerio.load(
+      [
+        '<a href="data:text/html,<script>alert(1)</script>">data</a>',
+        '<a href=" java\tscript:alert(1)">script</a>',
+        '<a href="mailto:team@example.com">mail</a>',
+        '<a href="/docs">docs</a>',
+        '<img src="data:image/svg+xml,<svg/>" srcset="javascript:alert(1) 1x, /b.png 2x" alt="b">',
+        '<img src="https://example.com/c.png" srcset="vbscript:x 1x" alt="c">',
+      ].join("\n"),
+      null,
+      false
+    );
+    const html = sanitizeHtml($, $.root().contents().toArray());
+
+    expect(html).toContain("<a>data</a>");
+    expect(html).toContain("<a>script</a>");
+    expect(html).toContain('<a href="mailto:team@example.com">mail</a>');
+    expect(html).toContain('<a href="/docs">docs</a>');
+    expect(html).toContain('<img srcset="/b.png 2x" alt="b">');
+    expect(html).toContain('<img src="https://example.com/c.png" alt="c">');
+    expect(html).not.toMatch(/data:|javascript:|vbscript:/i);
+  });
+
+  it("should sanitize unsafe URLs left after link resolution", async () => {
+    const { html } = await extract({
+      html_or_url: '<main><p><a href="data:text/html,x">Open</a> the guide.</p></main>',
+      format: "html",
+    });
+
+    expect(html).toBe("<main><p><a>Open</a> the guide.</p></main>");
+  });
+
+  it("should return typed blocks with their source positions", async () => {
+    const { blocks = [] } = await extract({ format: "blocks" });
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "list",
+      "code",
+      "quote",
+      "table",
+      "image",
+    ]);
+    expect(blocks[2]).toMatchObject({
+      ordered: false,
+      items: [
+        { text: "Done", checked: true, items: [{ text: "Nested" }], ordered: false },
+        { text: "Todo", checked: false },
+      ],
+    });
+    expect(blocks[3]).toMatchObject({ language: "sh", text: "npm install" });
+    expect(blocks[5]).toMatchObject({ headers: ["Key", "Value"], rows: [["a", "1"]] });
+    expect(blocks[6]).toMatchObject({ src: "https://example.com/logo.png", alt: "Logo" });
+
+    for (const block of blocks) {
+      const { start, end, line } = block.position!;
+      expect(PAGE.split("\n")[line - 1]).toContain(PAGE.slice(start, end).split("\n")[0]);
+    }
+    const heading = blocks[0].position!;
+    expect(PAGE.slice(heading.start, heading.end)).toBe('<h2 id="setup" class="title">Setup</h2>');
+    expect(heading).toMatchObject({ line: 4, column: 1 });
+  });
+
+  it("should apply the section and selectors to every format", async () => {
+    const data = await extract({
+      content_selector: undefined,
+      section: "Setup",
+      exclude_selectors: ["table", "blockquote"],
+      format: "text",
+    });
+
+    expect(data.section).toMatchObject({ text: "Setup" });
+    expect(data.text).not.toContain("Quoted");
+    expect(data.text).not.toContain("Key | Value");
+  });
+
+  it("should refuse chunking outside the markdown format", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: PAGE,
+      format: "text",
+      chunk_size: 100,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.code).toBe("INVALID_INPUT");
+  });
+});
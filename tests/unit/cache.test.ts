@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { setTimeout as sleep } from "node:timers/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  MemoryCacheStore,
+  DirectoryCacheStore,
+  isCacheable,
+  isFresh,
+  refreshEntry,
+  revalidationHeaders,
+  varyMatches,
+  varyValues,
+  type CacheEntry,
+} from "../../src/net/cache.js";
+
+function entry(headers: Array<[string, string]>, overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    url: "https://example.com/",
+    final_url: "https://example.com/",
+    status: 200,
+    headers,
+    body: new Uint8Array(Buffer.from("<p>cached</p>")),
+    vary: {},
+    stored_at: Date.now(),
+    ...overrides,
+  };
+}
+
+describe("Response cache", () => {
+  describe("isCacheable", () => {
+    it("should store responses with freshness or validators", () => {
+      expect(isCacheable(200, [["cache-control", "max-age=60"]])).toBe(true);
+      expect(isCacheable(200, [["etag", '"abc"']])).toBe(true);
+      expect(isCacheable(200, [["last-modified", "Mon, 01 Jan 2024 00:00:00 GMT"]])).toBe(true);
+    });
+
+    it("should not store uncacheable responses", () => {
+      expect(isCacheable(200, [])).toBe(false);
+      expect(isCacheable(404, [["cache-control", "max-age=60"]])).toBe(false);
+      expect(isCacheable(200, [["cache-control", "no-store, max-age=60"]])).toBe(false);
+      expect(isCacheable(200, [["cache-control", "private, max-age=60"]])).toBe(false);
+      expect(isCacheable(200, [["cache-control", "max-age=60"], ["vary", "*"]])).toBe(false);
+    });
+  });
+
+  describe("isFresh", () => {
+    it("should honour max-age and Age", () => {
+      const now = Date.now();
+      expect(isFresh(entry([["cache-control", "max-age=60"]], { stored_at: now - 30_000 }), now)).toBe(true);
+      expect(isFresh(entry([["cache-control", "max-age=60"]], { stored_at: now - 61_000 }), now)).toBe(false);
+      expect(
+        isFresh(entry([["cache-control", "max-age=60"], ["age", "50"]], { stored_at: now - 20_000 }), now)
+      ).toBe(false);
+    });
+
+    it("should honour Expires relative to Date", () => {
+      const now = Date.now();
+      const headers: Array<[string, string]> = [
+        ["date", new Date(now).toUTCString()],
+        ["expires", new Date(now + 120_000).toUTCString()],
+      ];
+      expect(isFresh(entry(headers, { stored_at: now }), now + 60_000)).toBe(true);
+      expect(isFresh(entry(headers, { stored_at: now }), now + 180_000)).toBe(false);
+      expect(isFresh(entry([["expires", "0"]]), now)).toBe(false);
+    });
+
+    it("should always revalidate no-cache responses", () => {
+      expect(isFresh(entry([["cache-control", "no-cache, max-age=600"]]))).toBe(false);
+    });
+  });
+
+  describe("revalidation", () => {
+    it("should build conditional headers from validators", () => {
+      const cached = entry([
+        ["etag", '"v1"'],
+        ["last-modified", "Mon, 01 Jan 2024 00:00:00 GMT"],
+      ]);
+      expect(revalidationHeaders(cached)).toEqual({
+        "If-None-Match": '"v1"',
+        "If-Modified-Since": "Mon, 01 Jan 2024 00:00:00 GMT",
+      });
+    });
+
+    it("should merge 304 headers into the entry", () => {
+      const cached = entry(
+        [
+          ["content-type", "text/html"],
+          ["etag", '"v1"'],
+          ["cache-control", "max-age=0"],
+        ],
+        { stored_at: 0 }
+      );
+      const refreshed = refreshEntry(cached, [
+        ["cache-control", "max-age=300"],
+        ["content-length", "0"],
+      ]);
+
+      expect(refreshed.headers).toEqual([
+        ["content-type", "text/html"],
+        ["etag", '"v1"'],
+        ["cache-control", "max-age=300"],
+      ]);
+      expect(refreshed.stored_at).toBeGreaterThan(0);
+      expect(refreshed.body).toBe(cached.body);
+    });
+  });
+
+  describe("Vary", () => {
+    it("should only match requests selecting the same variant", () => {
+      const headers: Array<[string, string]> = [["vary", "Accept-Language"]];
+      const cached = entry(headers, {
+        vary: varyValues(headers, { "Accept-Language": "en" }),
+      });
+
+      expect(varyMatches(cached, { "accept-language": "en" })).toBe(true);
+      expect(varyMatches(cached, { "Accept-Language": "de" })).toBe(false);
+      expect(varyMatches(cached, {})).toBe(false);
+    });
+  });
+
+  describe("MemoryCacheStore", () => {
+    it("should evict the least recently used entry", async () => {
+      const store = new MemoryCacheStore(2, 1024 * 1024);
+      await store.set("a", entry([]));
+      await store.set("b", entry([]));
+      await store.get("a");
+      await store.set("c", entry([]));
+
+      expect(await store.get("a")).toBeDefined();
+      expect(await store.get("b")).toBeUndefined();
+      expect(await store.get("c")).toBeDefined();
+    });
+
+    it("should evict entries to stay within the byte limit", async () => {
+      const store = new MemoryCacheStore(10, 20);
+      await store.set("a", entry([]));
+      await store.set("b", entry([]));
+
+      expect(await store.get("a")).toBeUndefined();
+      expect(await store.get("b")).toBeDefined();
+    });
+  });
+
+  describe("DirectoryCacheStore", () => {
+    it("should round-trip entries through disk", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "webpage-extract-cache-"));
+      try {
+        const store = new DirectoryCacheStore(directory);
+        const cached = entry([["etag", '"v1"']]);
+        await store.set("https://example.com/", cached);
+
+        const loaded = await store.get("https://example.com/");
+        expect(loaded?.headers).toEqual(cached.headers);
+        expect(Buffer.from(loaded!.body).toString()).toBe("<p>cached</p>");
+
+        await store.delete("https://example.com/");
+        expect(await store.get("https://example.com/")).toBeUndefined();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should evict the least recently used files", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "webpage-extract-cache-"));
+      try {
+        const store = new DirectoryCacheStore(directory, 2, 1024 * 1024);
+        await store.set("a", entry([]));
+        await sleep(10);
+        await store.set("b", entry([]));
+        await sleep(10);
+        await store.get("a");
+        await sleep(10);
+        await store.set("c", entry([]));
+
+        expect(await readdir(directory)).toHaveLength(2);
+        expect(await store.get("a")).toBeDefined();
+        expect(await store.get("b")).toBeUndefined();
+        expect(await store.get("c")).toBeDefined();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should evict files to stay within the byte limit", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "webpage-extract-cache-"));
+      try {
+        const small = new DirectoryCacheStore(directory, 10, 20);
+        await small.set("a", entry([]));
+        expect(await readdir(directory)).toEqual([]);
+
+        const store = new DirectoryCacheStore(directory, 10, 300);
+        await store.set("a", entry([]));
+        await sleep(10);
+        await store.set("b", entry([]));
+
+        expect(await store.get("a")).toBeUndefined();
+        expect(await store.get("b")).toBeDefined();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { decodeBody } from "../../src/net/charset.js";
+
+const ascii = (text: string) => Array.from(Buffer.from(text, "latin1"));
+
+// "日本" in Shift_JIS
+const SHIFT_JIS_NIHON = [0x93, 0xfa, 0x96, 0x7b];
+// "Привет" in windows-1251
+const CP1251_PRIVET = [0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2];
+
+describe("decodeBody", () => {
+  it("should honour the Content-Type charset", () => {
+    const bytes = new Uint8Array(SHIFT_JIS_NIHON);
+    const result = decodeBody(bytes, "text/html; charset=Shift_JIS");
+
+    expect(result.text).toBe("日本");
+    expect(result.encoding).toBe("shift_jis");
+    expect(result.encoding_source).toBe("content-type");
+  });
+
+  it("should prefer a BOM over the Content-Type charset", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...Buffer.from("héllo")]);
+    const result = decodeBody(bytes, "text/html; charset=iso-8859-1");
+
+    expect(result.text).toBe("héllo");
+    expect(result.encoding).toBe("utf-8");
+    expect(result.encoding_source).toBe("bom");
+  });
+
+  it("should sniff <meta charset>", () => {
+    const bytes = new Uint8Array([
+      ...ascii('<html><head><meta charset="windows-1251"></head><body>'),
+      ...CP1251_PRIVET,
+      ...ascii("</body></html>"),
+    ]);
+    const result = decodeBody(bytes, "text/html");
+
+    expect(result.text).toContain("Привет");
+    expect(result.encoding).toBe("windows-1251");
+    expect(result.encoding_source).toBe("meta");
+  });
+
+  it("should sniff http-equiv Content-Type declarations", () => {
+    const bytes = new Uint8Array([
+      ...ascii('<meta http-equiv="Content-Type" content="text/html; charset=gbk"><p>'),
+      // "中文" in GBK
+      0xd6, 0xd0, 0xce, 0xc4,
+    ]);
+    const result = decodeBody(bytes, null);
+
+    expect(result.text).toContain("中文");
+    expect(result.encoding).toBe("gbk");
+    expect(result.encoding_source).toBe("meta");
+  });
+
+  it("should ignore charset mentions in unrelated meta content", () => {
+    const bytes = new Uint8Array(ascii('<meta name="note" content="charset=shift_jis"><p>caf\xe9</p>'));
+    const result = decodeBody(bytes, null);
+
+    expect(result.encoding_source).toBe("heuristic");
+  });
+
+  it("should ignore unsupported Content-Type charsets", () => {
+    const result = decodeBody(new Uint8Array(ascii("plain")), "text/html; charset=bogus");
+
+    expect(result.encoding_source).toBe("heuristic");
+    expect(result.text).toBe("plain");
+  });
+
+  it("should fall back to windows-1252 for undeclared non-UTF-8 bytes", () => {
+    const result = decodeBody(new Uint8Array(ascii("caf\xe9")), null);
+
+    expect(result.text).toBe("café");
+    expect(result.encoding).toBe("windows-1252");
+    expect(result.encoding_source).toBe("heuristic");
+  });
+
+  it("should detect undeclared UTF-8", () => {
+    const result = decodeBody(new Uint8Array(Buffer.from("naïve")), null);
+
+    expect(result.text).toBe("naïve");
+    expect(result.encoding).toBe("utf-8");
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { chunkMarkdown, estimateTokens } from "../../src/formats/chunk.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+const SENTENCE = "The installer checks your system, downloads the packages and verifies them.";
+
+function section(heading: string, paragraphs: number): string {
+  return [heading, ...Array.from({ length: paragraphs }, (_, i) => `${i + 1}. ${SENTENCE}`)].join(
+    "\n\n"
+  );
+}
+
+describe("chunkMarkdown", () => {
+  it("should keep chunks under the budget and attach heading paths", () => {
+    const markdown = [
+      "# Install",
+      section("## Linux", 6),
+      section("## macOS", 2),
+      section("# Usage", 3),
+    ].join("\n\n");
+
+    const chunks = chunkMarkdown(markdown, { size: 300, unit: "characters", overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.size).toBeLessThanOrEqual(300);
+      expect(chunk.body.trim().startsWith("#") || chunk.headingPath.length > 0).toBe(true);
+    }
+    expect(chunks[0].headingPath).toEqual(["Install", "Linux"]);
+    expect(chunks[0].body.startsWith("# Install\n\n## Linux")).toBe(true);
+    expect(chunks.find((chunk) => chunk.body.includes("## macOS"))?.headingPath).toEqual([
+      "Install",
+      "macOS",
+    ]);
+    expect(chunks[chunks.length - 1].headingPath).toEqual(["Usage"]);
+    expect(chunks.map((chunk) => chunk.body).join("\n\n")).toBe(markdown);
+  });
+
+  it("should never split code fences or tables", () => {
+    const steps = Array.from({ length: 20 }, (_, i) => `echo step ${i}`);
+    const code = ["```sh", ...steps, "", "echo done", "```"].join("\n");
+    const rows = Array.from({ length: 10 }, (_, i) => `| ${i} | 1s |`);
+    const table = ["| Step | Time |", "| --- | --- |", ...rows].join("\n");
+    const markdown = [section("# Build", 2), code, table, "Finished."].join("\n\n");
+
+    const chunks = chunkMarkdown(markdown, { size: 40, unit: "tokens", overlap: 0 });
+
+    expect(chunks.some((chunk) => chunk.body === code)).toBe(true);
+    expect(chunks.some((chunk) => chunk.body === table)).toBe(true);
+    expect(chunks.every((chunk) => chunk.headingPath.join(" > ") === "Build")).toBe(true);
+  });
+
+  it("should repeat the end of each chunk at the start of the next", () => {
+    const markdown = Array.from({ length: 8 }, (_, i) => `Paragraph ${i}. ${SENTENCE}`).join(
+      "\n\n"
+    );
+
+    const chunks = chunkMarkdown(markdown, { size: 60, unit: "tokens", overlap: 20 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].overlap).not.toBe("");
+      expect(chunks[i - 1].body.endsWith(chunks[i].overlap)).toBe(true);
+      expect(chunks[i].size).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it("should split a paragraph larger than the budget at sentence ends", () => {
+    const paragraph = Array.from({ length: 10 }, () => SENTENCE).join(" ");
+
+    const chunks = chunkMarkdown(paragraph, { size: 200, unit: "characters", overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.body.endsWith("them."))).toBe(true);
+    expect(chunks.slice(1).every((chunk) => chunk.joiner === " ")).toBe(true);
+    expect(chunks.map((chunk, i) => (i > 0 ? chunk.joiner : "") + chunk.body).join("")).toBe(
+      paragraph
+    );
+  });
+
+  it("should estimate tokens from words and punctuation", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("Hello, world!")).toBe(4);
+    expect(estimateTokens("internationalization")).toBe(4);
+  });
+});
+
+describe("extractReadableMarkdown chunking", () => {
+  const html = `<main>${Array.from(
+    { length: 12 },
+    (_, i) => `<h2>Step ${i + 1}</h2><p>${SENTENCE} ${SENTENCE}</p>`
+  ).join("")}</main>`;
+
+  it("should page chunks through next_cursor", async () => {
+    const input = { html_or_url: html, chunk_size: 50, max_chunks: 5 };
+    const pages = [];
+    let cursor: string | undefined;
+    do {
+      const result = await extractReadableMarkdown({ ...input, cursor });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      pages.push(result.data);
+      cursor = result.meta.pagination?.next_cursor ?? undefined;
+    } while (cursor && pages.length < 10);
+
+    const chunks = pages.flatMap((page) => page.chunks ?? []);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(chunks).toHaveLength(pages[0].total_chunks ?? 0);
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+    expect(chunks[0].heading_path).toBe("Step 1");
+    expect(pages[0].markdown).toContain("## Step 1");
+    expect(pages[0].markdown).not.toContain("## Step 12");
+  });
+
+  it("should return a page's text without breaks inside split paragraphs", async () => {
+    const paragraph = Array.from({ length: 10 }, () => SENTENCE).join(" ");
+    const whole = await extractReadableMarkdown({ html_or_url: `<main><p>${paragraph}</p></main>` });
+    const chunked = await extractReadableMarkdown({
+      html_or_url: `<main><p>${paragraph}</p></main>`,
+      chunk_size: 50,
+    });
+
+    expect(chunked.ok && (chunked.data.chunks ?? []).length).toBeGreaterThan(1);
+    expect(chunked.ok && chunked.data.markdown).toBe(whole.ok && whole.data.markdown);
+  });
+
+  it("should return no chunks for empty content", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: "<main><div> </div></main>",
+      content_selector: "main",
+      chunk_size: 50,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.chunks).toEqual([]);
+      expect(result.data.total_chunks).toBe(0);
+      expect(result.meta.pagination?.next_cursor).toBeNull();
+    }
+  });
+
+  it("should refuse a cursor for different chunking options", async () => {
+    const first = await extractReadableMarkdown({
+      html_or_url: html,
+      chunk_size: 50,
+      max_chunks: 1,
+    });
+    const cursor = first.ok ? first.meta.pagination?.next_cursor ?? undefined : undefined;
+    expect(cursor).toBeTruthy();
+
+    const mismatched = await extractReadableMarkdown({ html_or_url: html, chunk_size: 80, cursor });
+    const garbage = await extractReadableMarkdown({
+      html_or_url: html,
+      chunk_size: 50,
+      cursor: "nope",
+    });
+    const overlap = await extractReadableMarkdown({
+      html_or_url: html,
+      chunk_size: 50,
+      chunk_overlap: 50,
+    });
+
+    for (const result of [mismatched, garbage, overlap]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("INVALID_INPUT");
+      }
+    }
+  });
+});
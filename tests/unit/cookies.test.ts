@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { CookieJar, CookieRejectedError, parseSetCookie } from "../../src/net/cookies.js";
+import { clearSessions } from "../../src/net/sessions.js";
+import { clearCookies, listCookies, setCookies } from "../../src/tools/cookies.js";
+
+const NOW = Date.UTC(2026, 0, 1);
+const page = new URL("https://www.example.com/account/settings");
+
+describe("Set-Cookie parsing", () => {
+  it("should default to a host-only cookie on the directory of the URL", () => {
+    const cookie = parseSetCookie("id=42", page, NOW);
+    expect(cookie).toMatchObject({
+      name: "id",
+      value: "42",
+      domain: "www.example.com",
+      hostOnly: true,
+      path: "/account",
+      expires: null,
+    });
+  });
+
+  it("should let Max-Age take precedence over Expires", () => {
+    const cookie = parseSetCookie(
+      "id=42; Expires=Wed, 01 Jan 2031 00:00:00 GMT; Max-Age=60",
+      page,
+      NOW
+    );
+    expect(cookie.expires).toBe(NOW + 60_000);
+  });
+
+  it("should accept a parent domain and reject unrelated or top-level ones", () => {
+    expect(parseSetCookie("a=1; Domain=.example.com", page, NOW)).toMatchObject({
+      domain: "example.com",
+      hostOnly: false,
+    });
+    expect(() => parseSetCookie("a=1; Domain=other.com", page, NOW)).toThrow(CookieRejectedError);
+    expect(() => parseSetCookie("a=1; Domain=com", page, NOW)).toThrow(/top-level/);
+  });
+
+  it("should enforce Secure, SameSite=None and cookie prefix rules", () => {
+    const insecure = new URL("http://www.example.com/");
+    expect(() => parseSetCookie("a=1; Secure", insecure, NOW)).toThrow(/https/);
+    expect(() => parseSetCookie("a=1; SameSite=None", page, NOW)).toThrow(/requires Secure/);
+    expect(() => parseSetCookie("__Secure-a=1", page, NOW)).toThrow(CookieRejectedError);
+    expect(() => parseSetCookie("__Host-a=1; Secure; Path=/account", page, NOW)).toThrow(
+      CookieRejectedError
+    );
+    expect(parseSetCookie("__Host-a=1; Secure; Path=/", page, NOW).hostOnly).toBe(true);
+  });
+});
+
+describe("CookieJar", () => {
+  it("should match cookies by domain, path and scheme", () => {
+    const jar = new CookieJar();
+    jar.setCookies(
+      ["host=1; Path=/", "shared=2; Domain=example.com; Path=/", "deep=3; Path=/account", "tls=4; Secure; Path=/"],
+      page,
+      NOW
+    );
+
+    const names = (url: string) => jar.cookiesFor(new URL(url), NOW).map((cookie) => cookie.name);
+    expect(names("https://www.example.com/account/x")).toEqual(["deep", "host", "shared", "tls"]);
+    expect(names("https://api.example.com/")).toEqual(["shared"]);
+    expect(names("http://www.example.com/accounts")).toEqual(["host", "shared"]);
+  });
+
+  it("should replace cookies with the same name, domain and path", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["a=1; Path=/"], page, NOW);
+    jar.setCookies(["a=2; Path=/"], page, NOW + 1000);
+
+    expect(jar.cookieHeader(page, NOW + 1000)).toBe("a=2");
+    expect(jar.list(NOW + 1000)[0].createdAt).toBe(NOW);
+  });
+
+  it("should delete cookies that are set again already expired, and drop stale ones", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["a=1; Path=/", "b=2; Path=/; Max-Age=10"], page, NOW);
+    jar.setCookies(["a=gone; Path=/; Max-Age=0"], page, NOW);
+
+    expect(jar.cookieHeader(page, NOW)).toBe("b=2");
+    expect(jar.cookieHeader(page, NOW + 11_000)).toBe("");
+  });
+
+  it("should ignore cookies the URL may not set", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["a=1; Domain=evil.com", "b=2"], page, NOW);
+    expect(jar.list(NOW).map((cookie) => cookie.name)).toEqual(["b"]);
+  });
+
+  it("should clear cookies for a domain and its subdomains", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["a=1; Path=/"], page, NOW);
+    jar.setCookies(["b=1; Path=/"], new URL("https://other.org/"), NOW);
+
+    expect(jar.clear("example.com")).toBe(1);
+    expect(jar.list(NOW).map((cookie) => cookie.name)).toEqual(["b"]);
+  });
+});
+
+describe("cookie tools", () => {
+  beforeEach(() => clearSessions());
+
+  it("should set, list and clear session cookies", async () => {
+    const set = await setCookies({
+      session: "s",
+      url: "https://example.com/",
+      cookies: [
+        { name: "a", value: "1", path: "/", max_age: 3600 },
+        { name: "b", value: "2", domain: "elsewhere.org" },
+      ],
+    });
+    expect(set.ok && set.data.stored).toBe(1);
+    expect(set.ok && set.data.rejected.map((entry) => entry.name)).toEqual(["b"]);
+    expect(set.meta.warnings).toHaveLength(1);
+
+    const listed = await listCookies({ session: "s", url: "https://example.com/page" });
+    expect(listed.ok && listed.data.cookies).toEqual([
+      expect.objectContaining({ name: "a", value: "1", host_only: true, path: "/" }),
+    ]);
+
+    const cleared = await clearCookies({ session: "s" });
+    expect(cleared.ok && cleared.data.removed).toBe(1);
+
+    const after = await listCookies({ session: "s" });
+    expect(after.ok && after.data.cookies).toEqual([]);
+    expect(after.meta.warnings[0]).toContain("does not exist");
+  });
+
+  it("should reject an invalid URL", async () => {
+    const result = await setCookies({ session: "s", url: "ftp://example.com", cookies: [] });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+    }
+  });
+});
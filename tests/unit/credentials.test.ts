@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { configure, getConfig, loadConfig } from "../../src/config.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+describe("credential profile configuration", () => {
+  it("should load profiles from CREDENTIALS_FILE and CREDENTIALS", () => {
+    const dir = mkdtempSync(join(tmpdir(), "credentials-"));
+    try {
+      const file = join(dir, "credentials.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          api: { type: "bearer", token: "file-token", hosts: ["api.example.com"] },
+          intranet: {
+            type: "basic",
+            username: "svc",
+            password: "hunter22",
+            hosts: ["*.corp.example"],
+            allow_http: true,
+          },
+        })
+      );
+
+      const { credentialProfiles } = loadConfig({
+        CREDENTIALS_FILE: file,
+        CREDENTIALS: JSON.stringify({
+          api: { type: "headers", headers: { "X-Api-Key": "env-key" }, hosts: ["api.example.com"] },
+          shop: { type: "cookie", cookie: "sid=abc123; consent=yes", hosts: ["shop.example"] },
+        }),
+      });
+
+      expect(Object.keys(credentialProfiles).sort()).toEqual(["api", "intranet", "shop"]);
+      expect(credentialProfiles.api.headers).toEqual({ "X-Api-Key": "env-key" });
+      expect(credentialProfiles.intranet).toMatchObject({
+        type: "basic",
+        allowHttp: true,
+        headers: { Authorization: `Basic ${Buffer.from("svc:hunter22").toString("base64")}` },
+      });
+      expect(credentialProfiles.shop.secrets).toContain("sid=abc123");
+    expect(credentialProfiles.shop.secrets).not.toContain("yes");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject malformed profiles without echoing secrets", () => {
+    expect(() =>
+      loadConfig({ CREDENTIALS: JSON.stringify({ api: { type: "bearer", token: "s3cret-value" } }) })
+    ).toThrow(/profile api needs a non-empty "hosts" list/);
+    expect(() =>
+      loadConfig({ CREDENTIALS: JSON.stringify({ api: { type: "oauth", hosts: ["a.example"] } }) })
+    ).toThrow(/unknown type/);
+
+    expect(() => loadConfig({ CREDENTIALS: '{"api": {"token": "s3cret-value"' })).toThrow(
+      /^Invalid credential profiles: CREDENTIALS is not valid JSON$/
+    );
+  });
+});
+
+describe("fetchUrl with credentials", () => {
+  let server: Server;
+  let baseUrl: string;
+  let port: number;
+  const originalConfig = getConfig();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/words") {
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end("<p>The value is true, and 1234 things</p>");
+        return;
+      }
+      if (req.url === "/elsewhere") {
+        res.writeHead(302, { Location: `http://127.0.0.1:${port}/echo` });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        `<main><h1>Echo</h1><p>auth=${req.headers.authorization ?? "none"}</p><p>cookie=${req.headers.cookie ?? "none"}</p></main>`
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    port = typeof address === "object" && address ? address.port : 0;
+    baseUrl = `http://localhost:${port}`;
+
+    const credentialProfiles = loadConfig({
+      CREDENTIALS: JSON.stringify({
+        local: { type: "bearer", token: "tok-123456", hosts: ["localhost"], allow_http: true },
+        session: { type: "cookie", cookie: "sid=cookie-secret", hosts: ["localhost"], allow_http: true },
+        https_only: { type: "bearer", token: "tok-abcdef", hosts: ["localhost"] },
+        other: { type: "bearer", token: "tok-other", hosts: ["api.example.com"] },
+        prefs: { type: "cookie", cookie: "beta=true; n=1234", hosts: ["localhost"], allow_http: true },
+      }),
+    }).credentialProfiles;
+    configure({ fetchAllowlist: ["localhost", "127.0.0.1"], credentialProfiles });
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should send the profile's credentials and redact them from the result", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/echo`, credentials: "local" });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.html).toContain("auth=Bearer [REDACTED]");
+      expect(result.meta.cache).toBe("miss");
+    }
+    expect(JSON.stringify(result)).not.toContain("tok-123456");
+  });
+
+  it("should append cookie profiles to the Cookie header", async () => {
+    const result = await fetchUrl({
+      url: `${baseUrl}/echo`,
+      credentials: "session",
+      headers: { Cookie: "lang=en" },
+    });
+
+    // The whole cookie string is a secret, so it is redacted as one
+    expect(result.ok && result.data.html).toContain("cookie=lang=en; [REDACTED]");
+  });
+
+  it("should not redact short cookie values from ordinary page text", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/words`, credentials: "prefs" });
+
+    expect(result.ok && result.data.html).toContain("The value is true, and 1234 things");
+  });
+
+  it("should not send credentials to a host outside the profile's scope", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/elsewhere`, credentials: "local" });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.final_url).toBe(`http://127.0.0.1:${port}/echo`);
+      expect(result.data.html).toContain("auth=none");
+    }
+  });
+
+  it("should refuse profiles that may not be sent to the URL", async () => {
+    const wrongHost = await fetchUrl({ url: `${baseUrl}/echo`, credentials: "other" });
+    const plainHttp = await fetchUrl({ url: `${baseUrl}/echo`, credentials: "https_only" });
+
+    for (const result of [wrongHost, plainHttp]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("INVALID_INPUT");
+      }
+    }
+  });
+
+  it("should list the available profiles for an unknown name", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/echo`, credentials: "missing" });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+      expect(result.error.details?.available).toEqual([
+        "local",
+        "session",
+        "https_only",
+        "other",
+        "prefs",
+      ]);
+    }
+  });
+
+  it("should pass credentials through the extractors", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: `${baseUrl}/echo`,
+      credentials: "local",
+    });
+
+    expect(result.ok && result.data.markdown).toContain("REDACTED");
+    expect(JSON.stringify(result)).not.toContain("tok-123456");
+  });
+});
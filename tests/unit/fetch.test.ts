@@ -0,0 +1,666 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { gzipSync } from "node:zlib";
+import { fetchUrl } from "../../src/tools/fetch.js";
+import { configure, getConfig } from "../../src/config.js";
+import { MemoryCacheStore, setResponseCache } from "../../src/net/cache.js";
+import { clearRobotsCache } from "../../src/net/robots.js";
+import { clearSessions } from "../../src/net/sessions.js";
+import { listCookies } from "../../src/tools/cookies.js";
+
+describe("fetchUrl", () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalConfig = getConfig();
+  const hits: Record<string, number> = {};
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits[req.url ?? ""] = (hits[req.url ?? ""] ?? 0) + 1;
+      switch (req.url) {
+        case "/flaky": {
+          if (hits["/flaky"] % 2 === 1) {
+            res.writeHead(503, { "Retry-After": "0" });
+            res.end();
+            return;
+          }
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end("<p>recovered</p>");
+          return;
+        }
+        case "/rate-limited": {
+          res.writeHead(429, { "Retry-After": "1" });
+          res.end();
+          return;
+        }
+        case "/rate-limited-long": {
+          res.writeHead(429, { "Retry-After": "3600" });
+          res.end();
+          return;
+        }
+        case "/cached": {
+          res.writeHead(200, { "Content-Type": "text/html", "Cache-Control": "max-age=300" });
+          res.end("<p>fresh</p>");
+          return;
+        }
+        case "/etag": {
+          if (req.headers["if-none-match"] === '"v1"') {
+            res.writeHead(304, { ETag: '"v1"', "Cache-Control": "no-cache" });
+            res.end();
+            return;
+          }
+          res.writeHead(200, { "Content-Type": "text/html", ETag: '"v1"', "Cache-Control": "no-cache" });
+          res.end("<p>validated</p>");
+          return;
+        }
+        case "/cached-cookie": {
+          res.writeHead(200, {
+            "Content-Type": "text/html",
+            "Cache-Control": "max-age=300",
+            "Set-Cookie": "track=1; Path=/",
+          });
+          res.end("<p>tracked</p>");
+          return;
+        }
+        case "/etag-cookie": {
+          if (req.headers["if-none-match"] === '"v1"') {
+            res.writeHead(304, {
+              ETag: '"v1"',
+              "Cache-Control": "no-cache",
+              "Set-Cookie": "seen=1; Path=/",
+            });
+            res.end();
+            return;
+          }
+          res.writeHead(200, { "Content-Type": "text/html", ETag: '"v1"', "Cache-Control": "no-cache" });
+          res.end("<p>validated</p>");
+          return;
+        }
+        case "/stream": {
+          // Chunked body with no Content-Length
+          res.writeHead(200, { "Content-Type": "text/html" });
+          for (let i = 0; i < 10; i++) {
+            res.write("x".repeat(1000));
+          }
+          res.end();
+          return;
+        }
+        case "/sized": {
+          const body = "y".repeat(5000);
+          res.writeHead(200, { "Content-Type": "text/html", "Content-Length": body.length });
+          res.end(body);
+          return;
+        }
+        case "/gzip-bomb": {
+          const body = gzipSync(Buffer.alloc(5 * 1024 * 1024, "a"));
+          res.writeHead(200, {
+            "Content-Type": "text/html",
+            "Content-Encoding": "gzip",
+            "Content-Length": body.length,
+          });
+          res.end(body);
+          return;
+        }
+        case "/echo": {
+          const chunks: Buffer[] = [];
+          req.on("data", (chunk: Buffer) => chunks.push(chunk));
+          req.on("end", () => {
+            res.writeHead(200, { "Content-Type": "text/html", "X-Echo": "1" });
+            res.end(
+              JSON.stringify({
+                method: req.method,
+                type: req.headers["content-type"] ?? null,
+                body: Buffer.concat(chunks).toString(),
+              })
+            );
+          });
+          return;
+        }
+        case "/see-other":
+          res.writeHead(303, { Location: "/echo" });
+          res.end();
+          return;
+        case "/with-cookies":
+          res.setHeader("Set-Cookie", ["a=1; Path=/", "b=2"]);
+          res.writeHead(200, { "Content-Type": "text/html", "X-Cache": "MISS" });
+          res.end("<p>cookies</p>");
+          return;
+        case "/login":
+          res.writeHead(302, { Location: "/whoami", "Set-Cookie": "sid=abc; Path=/; HttpOnly" });
+          res.end();
+          return;
+        case "/whoami":
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end(`<p>${req.headers.cookie ?? "anonymous"}</p>`);
+          return;
+        case "/hop-1":
+          res.writeHead(301, { Location: "/hop-2" });
+          res.end();
+          return;
+        case "/hop-2":
+          res.writeHead(307, { Location: `${baseUrl}/` });
+          res.end();
+          return;
+        case "/offsite":
+          res.writeHead(302, { Location: "http://127.0.0.1:1/" });
+          res.end();
+          return;
+        case "/to-loopback": {
+          const port = (server.address() as { port: number }).port;
+          res.writeHead(302, { Location: `http://127.0.0.1:${port}/credentials` });
+          res.end();
+          return;
+        }
+        case "/credentials":
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end(
+            JSON.stringify({
+              authorization: req.headers.authorization ?? null,
+              cookie: req.headers.cookie ?? null,
+              custom: req.headers["x-custom"] ?? null,
+            })
+          );
+          return;
+        case "/robots.txt":
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("User-agent: *\nDisallow: /private\n");
+          return;
+        case "/private/page":
+        case "/redirect-to-private":
+          res.writeHead(302, { Location: "/private/page" });
+          res.end();
+          return;
+        case "/cp1251": {
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end(
+            Buffer.concat([
+              Buffer.from('<html><head><meta charset="windows-1251"></head><body><p>'),
+              Buffer.from([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]),
+              Buffer.from("</p></body></html>"),
+            ])
+          );
+          return;
+        }
+        default:
+          res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+          res.end("<html><body><p>Hello</p></body></html>");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    configure({ fetchAllowlist: ["localhost"], retryBaseDelayMs: 1 });
+  });
+
+  afterAll(async () => {
+    setResponseCache(undefined);
+    configure(originalConfig);
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should fetch HTML from a URL", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/` });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.html).toContain("<p>Hello</p>");
+      expect(result.data.status_code).toBe(200);
+      expect(result.data.content_type).toBe("text/html; charset=utf-8");
+      expect(result.data.final_url).toBe(`${baseUrl}/`);
+      expect(result.data.encoding).toBe("utf-8");
+      expect(result.data.encoding_source).toBe("content-type");
+    }
+  });
+
+  it("should decode non-UTF-8 pages using the declared charset", async () => {
+    const result = await fetchUrl({ url: `${baseUrl}/cp1251` });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.html).toContain("<p>Привет</p>");
+      expect(result.data.encoding).toBe("windows-1251");
+      expect(result.data.encoding_source).toBe("meta");
+    }
+  });
+
+  describe("max_bytes", () => {
+    it("should fail when a streamed body exceeds max_bytes", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/stream`, max_bytes: 2500 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("RESPONSE_TOO_LARGE");
+        expect(result.error.details?.max_bytes).toBe(2500);
+      }
+    });
+
+    it("should fail early on an oversized Content-Length", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/sized`, max_bytes: 100 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("RESPONSE_TOO_LARGE");
+      }
+    });
+
+    it("should truncate and warn when on_max_bytes is truncate", async () => {
+      const result = await fetchUrl({
+        url: `${baseUrl}/stream`,
+        max_bytes: 2500,
+        on_max_bytes: "truncate",
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.html).toHaveLength(2500);
+        expect(result.meta.warnings).toContain(
+          "Response body truncated to 2500 bytes (max_bytes)"
+        );
+      }
+    });
+
+    it("should apply the limit to decompressed bytes", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/gzip-bomb`, max_bytes: 64 * 1024 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("RESPONSE_TOO_LARGE");
+      }
+    });
+
+    it("should use the server default limit", async () => {
+      configure({ maxResponseBytes: 1000 });
+      try {
+        const result = await fetchUrl({ url: `${baseUrl}/stream` });
+        expect(result.ok).toBe(false);
+      } finally {
+        configure({ maxResponseBytes: originalConfig.maxResponseBytes });
+      }
+    });
+  });
+
+  describe("retries", () => {
+    it("should retry transient 5xx responses", async () => {
+      hits["/flaky"] = 0;
+      const result = await fetchUrl({ url: `${baseUrl}/flaky` });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.html).toBe("<p>recovered</p>");
+        expect(result.meta.attempts).toBe(2);
+        expect(result.meta.retry_wait_ms).toBe(0);
+      }
+    });
+
+    it("should report exhausted 429s as RATE_LIMITED", async () => {
+      hits["/rate-limited"] = 0;
+      const result = await fetchUrl({ url: `${baseUrl}/rate-limited`, max_retries: 1 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("RATE_LIMITED");
+        expect(result.error.details).toMatchObject({
+          status_code: 429,
+          retry_after_ms: 1000,
+          attempts: 2,
+          retry_wait_ms: 1000,
+        });
+      }
+      expect(hits["/rate-limited"]).toBe(2);
+    });
+
+    it("should not wait for a Retry-After beyond the ceiling", async () => {
+      hits["/rate-limited-long"] = 0;
+      const result = await fetchUrl({ url: `${baseUrl}/rate-limited-long` });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("RATE_LIMITED");
+        expect(result.error.details?.retry_after_ms).toBe(3_600_000);
+        expect(result.error.details?.attempts).toBe(1);
+      }
+      expect(hits["/rate-limited-long"]).toBe(1);
+    });
+
+    it("should not retry when max_retries is 0", async () => {
+      hits["/flaky"] = 0;
+      const result = await fetchUrl({ url: `${baseUrl}/flaky`, max_retries: 0 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("UPSTREAM_ERROR");
+        expect(result.error.details?.attempts).toBe(1);
+      }
+    });
+  });
+
+  describe("response cache", () => {
+    beforeEach(() => {
+      setResponseCache(new MemoryCacheStore(10, 1024 * 1024));
+    });
+
+    it("should serve fresh responses from the cache", async () => {
+      const first = await fetchUrl({ url: `${baseUrl}/cached` });
+      const second = await fetchUrl({ url: `${baseUrl}/cached` });
+
+      expect(first.ok && first.meta.cache).toBe("miss");
+      expect(second.ok && second.meta.cache).toBe("hit");
+      if (second.ok) {
+        expect(second.data.html).toBe("<p>fresh</p>");
+      }
+      expect(hits["/cached"]).toBe(1);
+    });
+
+    it("should revalidate stale responses with If-None-Match", async () => {
+      hits["/etag"] = 0;
+      const first = await fetchUrl({ url: `${baseUrl}/etag` });
+      const second = await fetchUrl({ url: `${baseUrl}/etag` });
+
+      expect(first.ok && first.meta.cache).toBe("miss");
+      expect(second.ok && second.meta.cache).toBe("revalidated");
+      if (second.ok) {
+        expect(second.data.html).toBe("<p>validated</p>");
+        expect(second.data.status_code).toBe(200);
+      }
+      expect(hits["/etag"]).toBe(2);
+    });
+
+    it("should skip the lookup when bypass_cache is set", async () => {
+      hits["/cached"] = 0;
+      await fetchUrl({ url: `${baseUrl}/cached` });
+      const bypassed = await fetchUrl({ url: `${baseUrl}/cached`, bypass_cache: true });
+
+      expect(bypassed.ok && bypassed.meta.cache).toBe("miss");
+      expect(hits["/cached"]).toBe(2);
+    });
+
+    it("should not cache responses that set cookies", async () => {
+      hits["/cached-cookie"] = 0;
+      await fetchUrl({ url: `${baseUrl}/cached-cookie` }, { clientId: "a" });
+      const other = await fetchUrl(
+        { url: `${baseUrl}/cached-cookie`, include_headers: true },
+        { clientId: "b" }
+      );
+
+      expect(other.ok && other.meta.cache).toBe("miss");
+      expect(hits["/cached-cookie"]).toBe(2);
+    });
+
+    it("should store cookies set on revalidation in the session, not the cache", async () => {
+      clearSessions();
+      const store = new MemoryCacheStore(10, 1024 * 1024);
+      setResponseCache(store);
+      await fetchUrl({ url: `${baseUrl}/etag-cookie`, session: "reval" });
+      const second = await fetchUrl({ url: `${baseUrl}/etag-cookie`, session: "reval" });
+      const listed = await listCookies({ session: "reval" });
+      const entry = await store.get(`${baseUrl}/etag-cookie`);
+
+      expect(second.ok && second.meta.cache).toBe("revalidated");
+      expect(listed.ok && listed.data.cookies.map((cookie) => cookie.name)).toEqual(["seen"]);
+      expect(entry?.headers.some(([name]) => name === "set-cookie")).toBe(false);
+    });
+
+    it("should not cache requests carrying credentials", async () => {
+      hits["/cached"] = 0;
+      await fetchUrl({ url: `${baseUrl}/cached`, headers: { Authorization: "Bearer x" } });
+      await fetchUrl({ url: `${baseUrl}/cached`, headers: { Authorization: "Bearer x" } });
+
+      expect(hits["/cached"]).toBe(2);
+    });
+
+    it("should not share entries between requests with headers of their own", async () => {
+      hits["/cached"] = 0;
+      const first = await fetchUrl({ url: `${baseUrl}/cached`, headers: { "X-Api-Key": "key-a" } });
+      const second = await fetchUrl({ url: `${baseUrl}/cached`, headers: { "X-Api-Key": "key-b" } });
+      const plain = await fetchUrl({ url: `${baseUrl}/cached` });
+
+      expect(hits["/cached"]).toBe(3);
+      expect(first.ok && second.ok && plain.ok).toBe(true);
+      expect(second.ok && second.meta.cache).toBe("miss");
+      expect(plain.ok && plain.meta.cache).toBe("miss");
+    });
+  });
+
+  describe("methods and bodies", () => {
+    const echo = async (input: Omit<Parameters<typeof fetchUrl>[0], "url">, path = "/echo") => {
+      const result = await fetchUrl({ url: `${baseUrl}${path}`, ...input });
+      expect(result.ok).toBe(true);
+      return result.ok ? JSON.parse(result.data.html) : null;
+    };
+
+    it("should send JSON bodies", async () => {
+      const echoed = await echo({ method: "POST", json: { query: "{ items }" } });
+      expect(echoed).toEqual({
+        method: "POST",
+        type: "application/json",
+        body: '{"query":"{ items }"}',
+      });
+    });
+
+    it("should send urlencoded and multipart forms", async () => {
+      const urlencoded = await echo({ method: "POST", form: { q: "a b", page: "2" } });
+      expect(urlencoded.type).toBe("application/x-www-form-urlencoded;charset=UTF-8");
+      expect(urlencoded.body).toBe("q=a+b&page=2");
+
+      const multipart = await echo({ method: "PUT", form: { q: "x" }, form_encoding: "multipart" });
+      expect(multipart.method).toBe("PUT");
+      expect(multipart.type).toMatch(/^multipart\/form-data; boundary=/);
+      expect(multipart.body).toContain('name="q"');
+    });
+
+    it("should send raw bodies with the given content type", async () => {
+      const echoed = await echo({
+        method: "POST",
+        body: "<q/>",
+        headers: { "content-type": "application/xml" },
+      });
+      expect(echoed.type).toBe("application/xml");
+      expect(echoed.body).toBe("<q/>");
+    });
+
+    it("should follow a 303 after POST with a body-less GET", async () => {
+      const echoed = await echo({ method: "POST", json: { a: 1 } }, "/see-other");
+      expect(echoed).toEqual({ method: "GET", type: null, body: "" });
+    });
+
+    it("should return headers without a body for HEAD", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/echo`, method: "HEAD" });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.html).toBe("");
+        expect(result.data.headers?.["x-echo"]).toEqual(["1"]);
+        expect(result.data.timing.body_bytes).toBe(0);
+      }
+    });
+
+    it("should reject bodies on GET and conflicting body inputs", async () => {
+      const onGet = await fetchUrl({ url: `${baseUrl}/echo`, body: "x" });
+      const both = await fetchUrl({ url: `${baseUrl}/echo`, method: "POST", body: "x", json: 1 });
+
+      expect(!onGet.ok && onGet.error.code).toBe("INVALID_INPUT");
+      expect(!both.ok && both.error.code).toBe("INVALID_INPUT");
+    });
+  });
+
+  describe("headers and timing", () => {
+    it("should omit headers unless include_headers is set", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/with-cookies` });
+      expect(result.ok && result.data.headers).toBeUndefined();
+    });
+
+    it("should return multi-valued response headers", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/with-cookies`, include_headers: true });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.headers?.["set-cookie"]).toEqual(["a=1; Path=/", "b=2"]);
+        expect(result.data.headers?.["x-cache"]).toEqual(["MISS"]);
+      }
+    });
+
+    it("should report timing and body size", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/with-cookies` });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.timing.body_bytes).toBe("<p>cookies</p>".length);
+        expect(result.data.timing.ttfb_ms).toBeGreaterThanOrEqual(0);
+        expect(result.data.timing.total_ms).toBeGreaterThanOrEqual(result.data.timing.ttfb_ms);
+      }
+    });
+  });
+
+  describe("redirects", () => {
+    it("should report every hop of the redirect chain", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/hop-1` });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.final_url).toBe(`${baseUrl}/`);
+        expect(result.data.redirects).toEqual([
+          { url: `${baseUrl}/hop-1`, status: 301, location: `${baseUrl}/hop-2` },
+          { url: `${baseUrl}/hop-2`, status: 307, location: `${baseUrl}/` },
+        ]);
+      }
+    });
+
+    it("should return an empty chain when there is no redirect", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/` });
+      expect(result.ok && result.data.redirects).toEqual([]);
+    });
+
+    it("should refuse redirects beyond max_redirects", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/hop-1`, max_redirects: 1 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("REDIRECT_REFUSED");
+        expect(result.error.details?.redirects).toHaveLength(2);
+      }
+    });
+
+    it("should refuse cross-origin redirects when asked to", async () => {
+      const result = await fetchUrl({
+        url: `${baseUrl}/offsite`,
+        allow_cross_origin_redirects: false,
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("REDIRECT_REFUSED");
+        expect(result.error.details?.location).toBe("http://127.0.0.1:1/");
+      }
+    });
+  });
+
+  it("should not forward credential headers on a cross-origin redirect", async () => {
+    configure({ fetchAllowlist: ["localhost", "127.0.0.1"] });
+    try {
+      const result = await fetchUrl({
+        url: `${baseUrl}/to-loopback`,
+        headers: { Authorization: "Bearer SECRET", Cookie: "x=y", "X-Custom": "kept" },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.final_url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/credentials$/);
+        expect(JSON.parse(result.data.html)).toEqual({
+          authorization: null,
+          cookie: null,
+          custom: "kept",
+        });
+      }
+    } finally {
+      configure({ fetchAllowlist: ["localhost"] });
+    }
+  });
+
+  describe("robots.txt", () => {
+    beforeEach(() => {
+      clearRobotsCache();
+      configure({ respectRobotsTxt: true });
+    });
+
+    afterAll(() => {
+      configure({ respectRobotsTxt: false });
+    });
+
+    it("should refuse URLs disallowed by robots.txt", async () => {
+      hits["/private/page"] = 0;
+      const result = await fetchUrl({ url: `${baseUrl}/private/page` });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("ROBOTS_DISALLOWED");
+      }
+      expect(hits["/private/page"]).toBe(0);
+    });
+
+    it("should check every redirect hop", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/redirect-to-private` });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("ROBOTS_DISALLOWED");
+        expect(result.error.details?.blocked_url).toBe(`${baseUrl}/private/page`);
+      }
+    });
+
+    it("should fetch allowed URLs and reuse the parsed file", async () => {
+      hits["/robots.txt"] = 0;
+      const first = await fetchUrl({ url: `${baseUrl}/`, bypass_cache: true });
+      const second = await fetchUrl({ url: `${baseUrl}/`, bypass_cache: true });
+
+      expect(first.ok && second.ok).toBe(true);
+      expect(hits["/robots.txt"]).toBe(1);
+    });
+  });
+
+  describe("cookie sessions", () => {
+    beforeEach(() => clearSessions());
+
+    it("should send cookies set earlier in the same redirect chain", async () => {
+      const result = await fetchUrl({ url: `${baseUrl}/login` });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.html).toContain("<p>sid=abc</p>");
+      }
+    });
+
+    it("should forget cookies between calls without a session", async () => {
+      await fetchUrl({ url: `${baseUrl}/login` });
+      const result = await fetchUrl({ url: `${baseUrl}/whoami`, bypass_cache: true });
+
+      expect(result.ok && result.data.html).toContain("anonymous");
+    });
+
+    it("should keep cookies across calls in a named session", async () => {
+      await fetchUrl({ url: `${baseUrl}/login`, session: "shop" });
+      const result = await fetchUrl({ url: `${baseUrl}/whoami`, session: "shop" });
+
+      expect(result.ok && result.data.html).toContain("<p>sid=abc</p>");
+    });
+
+    it("should append session cookies to an explicit Cookie header", async () => {
+      await fetchUrl({ url: `${baseUrl}/login`, session: "shop" });
+      const result = await fetchUrl({
+        url: `${baseUrl}/whoami`,
+        session: "shop",
+        headers: { Cookie: "lang=en" },
+      });
+
+      expect(result.ok && result.data.html).toContain("<p>lang=en; sid=abc</p>");
+    });
+
+    it("should scope sessions to the calling client", async () => {
+      await fetchUrl({ url: `${baseUrl}/login`, session: "shop" }, { clientId: "a" });
+      const other = await fetchUrl({ url: `${baseUrl}/whoami`, session: "shop" }, { clientId: "b" });
+      const listed = await listCookies({ session: "shop" }, { clientId: "a" });
+
+      expect(other.ok && other.data.html).toContain("anonymous");
+      expect(listed.ok && listed.data.cookies.map((cookie) => cookie.name)).toEqual(["sid"]);
+    });
+  });
+});
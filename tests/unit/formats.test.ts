@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import {
+  convertBody,
+  detectContentKind,
+  fenceCode,
+  UnsupportedContentError,
+} from "../../src/formats/convert.js";
+import { parsePdfDate } from "../../src/formats/pdf.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+import { extractMetadata } from "../../src/tools/metadata.js";
+import { configure, getConfig } from "../../src/config.js";
+import { makePdf } from "../fixtures/pdf.js";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Example Blog</title>
+    <link>https://example.com/</link>
+    <description>Posts about examples</description>
+    <item>
+      <title>First post</title>
+      <link>https://example.com/first</link>
+      <pubDate>Mon, 15 Jan 2024 12:00:00 GMT</pubDate>
+      <dc:creator>Sam</dc:creator>
+      <description>&lt;p&gt;Hello &lt;b&gt;world&lt;/b&gt;&lt;/p&gt;</description>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Feed</title>
+  <link rel="self" href="https://example.com/feed.xml"/>
+  <link href="https://example.com/"/>
+  <entry>
+    <title>Entry one</title>
+    <link href="https://example.com/one"/>
+    <updated>2024-01-15T12:00:00Z</updated>
+    <summary type="html">&lt;p&gt;Summary text&lt;/p&gt;</summary>
+  </entry>
+</feed>`;
+
+describe("Content conversion", () => {
+  it("should detect content kinds from the media type", () => {
+    const empty = new Uint8Array();
+    expect(detectContentKind("text/html; charset=utf-8", empty)).toBe("html");
+    expect(detectContentKind("text/plain", empty)).toBe("text");
+    expect(detectContentKind("text/markdown", empty)).toBe("text");
+    expect(detectContentKind("application/ld+json", empty)).toBe("json");
+    expect(detectContentKind("application/rss+xml", empty)).toBe("feed");
+    expect(detectContentKind("text/xml", empty)).toBe("xml");
+    expect(detectContentKind("application/pdf", empty)).toBe("pdf");
+    expect(detectContentKind("image/png", empty)).toBeNull();
+    expect(detectContentKind("application/zip", empty)).toBeNull();
+  });
+
+  it("should sniff PDFs served without a useful type", () => {
+    expect(detectContentKind("application/octet-stream", encode("%PDF-1.7"))).toBe("pdf");
+    expect(detectContentKind(null, encode("<html></html>"))).toBe("html");
+  });
+
+  it("should pass plain text through as Markdown", async () => {
+    const document = await convertBody(encode("# Notes\n\nSome *text*\n"), "text/plain");
+    expect(document.kind).toBe("text");
+    expect(document.markdown).toBe("# Notes\n\nSome *text*");
+    expect(document.html).toContain("<pre># Notes");
+  });
+
+  it("should pretty-print JSON in a fenced block", async () => {
+    const document = await convertBody(encode('{"a":[1,2],"b":"x"}'), "application/json");
+    expect(document.markdown).toBe('```json\n{\n  "a": [\n    1,\n    2\n  ],\n  "b": "x"\n}\n```');
+    expect(document.warnings).toEqual([]);
+  });
+
+  it("should warn about invalid JSON and keep it unformatted", async () => {
+    const document = await convertBody(encode('{"a":'), "application/json");
+    expect(document.markdown).toBe('```json\n{"a":\n```');
+    expect(document.warnings[0]).toMatch(/not valid JSON/);
+  });
+
+  it("should lengthen fences around content containing backticks", () => {
+    expect(fenceCode("a ``` b", "md")).toBe("````md\na ``` b\n````");
+  });
+
+  it("should render RSS feeds as HTML articles", async () => {
+    const document = await convertBody(encode(RSS), "application/rss+xml");
+    expect(document.kind).toBe("feed");
+    expect(document.markdown).toBeUndefined();
+    expect(document.html).toContain("<title>Example Blog</title>");
+    expect(document.html).toContain('<a href="https://example.com/first">First post</a>');
+    expect(document.html).toContain("Sam");
+    expect(document.html).toContain("<p>Hello <b>world</b></p>");
+  });
+
+  it("should render Atom feeds served as generic XML", async () => {
+    const document = await convertBody(encode(ATOM), "application/xml");
+    expect(document.kind).toBe("feed");
+    expect(document.html).toContain('<link rel="canonical" href="https://example.com/">');
+    expect(document.html).toContain('<a href="https://example.com/one">Entry one</a>');
+    expect(document.html).toContain("<p>Summary text</p>");
+  });
+
+  it("should show other XML in a fenced block", async () => {
+    const document = await convertBody(encode("<note><to>Ann</to></note>"), "text/xml");
+    expect(document.kind).toBe("xml");
+    expect(document.markdown).toBe("```xml\n<note><to>Ann</to></note>\n```");
+  });
+
+  it("should extract PDF text with page markers", async () => {
+    const pdf = makePdf([["Hello page one", "Second line"], ["Page two text"]], {
+      Title: "Report",
+      Author: "Ann",
+      CreationDate: "D:20240115120000Z",
+    });
+    const document = await convertBody(new Uint8Array(pdf), "application/pdf");
+
+    expect(document.kind).toBe("pdf");
+    expect(document.markdown).toBe(
+      "<!-- page 1 -->\n\nHello page one\nSecond line\n\n<!-- page 2 -->\n\nPage two text"
+    );
+    expect(document.html).toContain("<title>Report</title>");
+    expect(document.html).toContain('<meta name="author" content="Ann">');
+    expect(document.html).toContain('<meta name="date" content="2024-01-15T12:00:00.000Z">');
+  });
+
+  it("should parse PDF dates with offsets", () => {
+    expect(parsePdfDate("D:20240115120000+02'00'")).toBe("2024-01-15T10:00:00.000Z");
+    expect(parsePdfDate("D:2024")).toBe("2024-01-01T00:00:00.000Z");
+    expect(parsePdfDate("yesterday")).toBeUndefined();
+  });
+
+  it("should reject unsupported types", async () => {
+    await expect(convertBody(new Uint8Array([0x89, 0x50]), "image/png")).rejects.toThrow(
+      UnsupportedContentError
+    );
+  });
+});
+
+describe("Extractors with non-HTML URLs", () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalConfig = getConfig();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case "/notes.txt":
+          res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+          res.end("# Notes\n\nPlain text body");
+          return;
+        case "/report.pdf":
+          res.writeHead(200, { "Content-Type": "application/pdf" });
+          res.end(makePdf([["Quarterly results"]], { Title: "Q1 Report" }));
+          return;
+        case "/photo.png":
+          res.writeHead(200, { "Content-Type": "image/png" });
+          res.end(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+          return;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    configure({ fetchAllowlist: ["localhost"], cacheStore: "none" });
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should return plain text as Markdown with its headings", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: `${baseUrl}/notes.txt` });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.markdown).toBe("# Notes\n\nPlain text body");
+      expect(result.data.headings).toEqual([{ level: 1, text: "Notes" }]);
+    }
+  });
+
+  it("should extract PDF text and metadata", async () => {
+    const markdown = await extractReadableMarkdown({ html_or_url: `${baseUrl}/report.pdf` });
+    const metadata = await extractMetadata({ html_or_url: `${baseUrl}/report.pdf` });
+
+    expect(markdown.ok && markdown.data.markdown).toBe("<!-- page 1 -->\n\nQuarterly results");
+    expect(metadata.ok && metadata.data.title).toBe("Q1 Report");
+  });
+
+  it("should refuse unsupported content types by name", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: `${baseUrl}/photo.png` });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+      expect(result.error.message).toContain("image/png");
+      expect(result.error.details?.content_type).toBe("image/png");
+    }
+  });
+});
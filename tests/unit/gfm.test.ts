@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+async function markdownOf(body: string, table_fallback?: "html" | "list"): Promise<string> {
+  const result = await extractReadableMarkdown({
+    html_or_url: `<body><main>${body}</main></body>`,
+    content_selector: "main",
+    table_fallback,
+  });
+  expect(result.ok).toBe(true);
+  return result.ok ? result.data.markdown : "";
+}
+
+describe("extractReadableMarkdown GFM output", () => {
+  it("should render data tables as pipe tables with escaped pipes", async () => {
+    const markdown = await markdownOf(`
+      <table>
+        <caption>Plans</caption>
+        <tr><th>Plan</th><th>Flags</th></tr>
+        <tr><td><strong>Basic</strong></td><td>--a | --b</td></tr>
+        <tr><td><a href="https://example.com/pro">Pro</a></td><td>none</td></tr>
+      </table>
+    `);
+
+    expect(markdown).toBe(
+      [
+        "*Plans*",
+        "",
+        "| Plan | Flags |",
+        "| --- | --- |",
+        "| **Basic** | \\--a \\| --b |",
+        "| [Pro](https://example.com/pro) | none |",
+      ].join("\n")
+    );
+  });
+
+  it("should use empty headers when the table has none, as extract_tables does", async () => {
+    const markdown = await markdownOf("<table><tr><td>a</td><td>b</td></tr></table>");
+
+    expect(markdown).toBe("|  |  |\n| --- | --- |\n| a | b |");
+  });
+
+  it("should fall back to HTML or a list for spanned cells", async () => {
+    const table = `<table class="grid">
+      <tr><th>Day</th><th>Slot</th></tr>
+      <tr><td rowspan="2">Mon</td><td style="color:red">9:00</td></tr>
+      <tr><td>10:00</td></tr>
+    </table>`;
+
+    const html = await markdownOf(table);
+    const list = await markdownOf(table, "list");
+
+    expect(html).toBe(
+      [
+        "<table><tbody>",
+        "<tr><th>Day</th><th>Slot</th></tr>",
+        '<tr><td rowspan="2">Mon</td><td>9:00</td></tr>',
+        "<tr><td>10:00</td></tr></tbody>",
+        "</table>",
+      ].join("\n")
+    );
+    expect(list).toBe("- Day: Mon; Slot: 9:00\n- Day: Mon; Slot: 10:00");
+  });
+
+  it("should leave layout tables to be flattened", async () => {
+    const markdown = await markdownOf(
+      '<table role="presentation"><tr><td><p>Just a paragraph.</p></td></tr></table>'
+    );
+
+    expect(markdown).toBe("Just a paragraph.");
+  });
+
+  it("should render strikethrough and task lists", async () => {
+    const markdown = await markdownOf(`
+      <p>Price: <del>$20</del> $10</p>
+      <ul>
+        <li><input type="checkbox" checked disabled> Write docs</li>
+        <li><input type="checkbox" disabled> Ship it</li>
+      </ul>
+    `);
+
+    expect(markdown).toContain("Price: ~~$20~~ $10");
+    expect(markdown).toContain("-   [x] Write docs\n-   [ ] Ship it");
+  });
+});
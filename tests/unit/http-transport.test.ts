@@ -221,4 +221,39 @@ describe("HTTP Transport /mcp Endpoint (Stateless JSON-RPC)", () => {
     expect(data.error.code).toBe(-32601);
     expect(data.error.message).toContain("Unknown tool");
   });
+
+  it("should keep cookie sessions per Mcp-Session-Id", async () => {
+    const call = async (sessionId: string | null, name: string, args: Record<string, unknown>) => {
+      const response = await fetch(`http://localhost:${testPort}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 7,
+          method: name === "initialize" ? "initialize" : "tools/call",
+          params: name === "initialize" ? {} : { name, arguments: args },
+        }),
+      });
+      return response;
+    };
+
+    const initialized = await call(null, "initialize", {});
+    const sessionId = initialized.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+
+    await call(sessionId, "set_cookies", {
+      session: "s",
+      url: "https://example.com/",
+      cookies: [{ name: "a", value: "1" }],
+    });
+
+    const listed = await (await call(sessionId, "list_cookies", { session: "s" })).json();
+    const other = await (await call(null, "list_cookies", { session: "s" })).json();
+
+    expect(listed.result.structuredContent.data.cookies).toHaveLength(1);
+    expect(other.result.structuredContent.data.cookies).toHaveLength(0);
+  });
 });
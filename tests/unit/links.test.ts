@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { configure, getConfig } from "../../src/config.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+const GUIDE = `<html><body><main>
+  <h1>Guide</h1>
+  <p>See <a href="../api/">the API</a> and <a href="#setup">setup</a>.</p>
+  <img src="img/diagram.png" srcset="img/diagram.png 1x, /static/diagram@2x.png 2x" alt="Diagram">
+</main></body></html>`;
+
+describe("extractReadableMarkdown link resolution", () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalConfig = getConfig();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/old-guide") {
+        res.writeHead(301, { Location: "/docs/guide/" });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(GUIDE);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    configure({ fetchAllowlist: ["localhost"], cacheStore: "none" });
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should resolve links and images against the final URL", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: `${baseUrl}/old-guide` });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.markdown).toContain(`[the API](${baseUrl}/docs/api/)`);
+      expect(result.data.markdown).toContain(`[setup](${baseUrl}/docs/guide/#setup)`);
+      expect(result.data.markdown).toContain(`![Diagram](${baseUrl}/docs/guide/img/diagram.png)`);
+    }
+  });
+
+  it("should resolve raw HTML against base_url, honouring <base href>", async () => {
+    const html = `<html><head><base href="/v2/"></head><body><main>
+      <p>Read <a href="intro">the intro</a>, <a href="mailto:docs@example.com">write to us</a>.</p>
+    </main></body></html>`;
+
+    const withBase = await extractReadableMarkdown({
+      html_or_url: html,
+      base_url: "https://docs.example.com/v1/index.html",
+    });
+    const withoutBase = await extractReadableMarkdown({ html_or_url: GUIDE });
+
+    expect(withBase.ok && withBase.data.markdown).toContain(
+      "[the intro](https://docs.example.com/v2/intro)"
+    );
+    expect(withBase.ok && withBase.data.markdown).toContain("[write to us](mailto:docs@example.com)");
+    expect(withoutBase.ok && withoutBase.data.markdown).toContain("[the API](../api/)");
+  });
+
+  it("should drop javascript: and empty-fragment links but keep their text", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: `<main><p><a href="javascript:void(0)">Open menu</a>, <a href="#">back to top</a> and <a href="">reload</a>.</p></main>`,
+      base_url: "https://example.com/",
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.markdown).toBe("Open menu, back to top and reload.");
+    }
+  });
+
+  it("should reject an invalid base_url", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: GUIDE, base_url: "/relative" });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import * as cheerio from "cheerio";
+import { buildMarkdownOutline, buildOutline, slugify } from "../../src/formats/outline.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+const PAGE = `<html><body>
+  <nav><h2>Site menu</h2><a href="/">Home</a></nav>
+  <main>
+    <h1 id="guide">User guide</h1>
+    <p>Read this first.</p>
+    <h2>Getting started</h2>
+    <p>Install the tool and run it.</p>
+    <h3><a name="linux-setup"></a>On Linux</h3>
+    <p>Use the package manager.</p>
+    <h2>Getting started</h2>
+    <p>Twice.</p>
+  </main>
+  <footer><h2>Contact</h2></footer>
+</body></html>`;
+
+describe("buildOutline", () => {
+  it("should nest headings with anchors and section word counts", () => {
+    const $ = cheerio.load(PAGE);
+
+    const outline = buildOutline($("main").toArray(), "https://example.com/docs?v=2#top");
+
+    expect(outline).toHaveLength(1);
+    const [guide] = outline;
+    expect(guide).toMatchObject({
+      level: 1,
+      text: "User guide",
+      id: "guide",
+      id_source: "page",
+      url: "https://example.com/docs?v=2#guide",
+      word_count: 14,
+    });
+    expect(guide.children.map((node) => node.id)).toEqual([
+      "getting-started",
+      "getting-started-1",
+    ]);
+    expect(guide.children[0].word_count).toBe(10);
+    expect(guide.children[0].children[0]).toMatchObject({
+      text: "On Linux",
+      id: "linux-setup",
+      id_source: "page",
+      word_count: 4,
+    });
+  });
+
+  it("should outline Markdown with generated ids", () => {
+    const outline = buildMarkdownOutline("intro\n\n# A b!\n\none two\n\n## C\n\nthree\n\n# D");
+
+    expect(outline.map((node) => [node.id, node.word_count])).toEqual([
+      ["a-b", 3],
+      ["d", 0],
+    ]);
+    expect(outline[0].children[0]).toMatchObject({ id: "c", word_count: 1 });
+    expect(outline[0].url).toBeUndefined();
+  });
+
+  it("should slugify like GitHub", () => {
+    expect(slugify("What's new in v2.0?")).toBe("whats-new-in-v20");
+    expect(slugify("Über  uns")).toBe("über--uns");
+  });
+});
+
+describe("extractReadableMarkdown outline", () => {
+  it("should outline the main content only", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: PAGE,
+      base_url: "https://example.com/docs",
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.headings.map((heading) => heading.text)).toEqual([
+        "User guide",
+        "Getting started",
+        "On Linux",
+        "Getting started",
+      ]);
+      expect(result.data.outline[0].url).toBe("https://example.com/docs#guide");
+    }
+  });
+
+  it("should keep the whole-page headings when asked", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: PAGE, whole_page_headings: true });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.headings.map((heading) => heading.text)).toEqual([
+        "Site menu",
+        "User guide",
+        "Getting started",
+        "On Linux",
+        "Getting started",
+        "Contact",
+      ]);
+      expect(result.data.outline.map((node) => node.text)).toEqual(["Site menu", "User guide"]);
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { configure, getConfig, loadConfig } from "../../src/config.js";
+import { selectProxy } from "../../src/net/proxy.js";
+import { setResponseCache } from "../../src/net/cache.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) =>
+    server.listen(0, "localhost", () => {
+      const address = server.address();
+      resolve(`http://localhost:${typeof address === "object" && address ? address.port : 0}`);
+    })
+  );
+}
+
+describe("proxy configuration", () => {
+  const originalConfig = getConfig();
+
+  afterEach(() => {
+    configure(originalConfig);
+  });
+
+  it("should read proxies, NO_PROXY and PROXY_RULES from the environment", () => {
+    const config = loadConfig({
+      https_proxy: "http://proxy.corp:3128",
+      NO_PROXY: "localhost, .internal.example",
+      PROXY_RULES: "*.partner.example=http://proxy2:8080,intranet.example=direct,broken",
+    });
+
+    expect(config.httpsProxy).toBe("http://proxy.corp:3128");
+    expect(config.httpProxy).toBeNull();
+    expect(config.noProxy).toEqual(["localhost", ".internal.example"]);
+    expect(config.proxyRules).toEqual([
+      { pattern: "*.partner.example", proxy: "http://proxy2:8080" },
+      { pattern: "intranet.example", proxy: null },
+    ]);
+  });
+
+  it("should pick the proxy by scheme unless NO_PROXY covers the host", () => {
+    configure({
+      httpProxy: "http://plain:3128",
+      httpsProxy: "http://secure:3128",
+      noProxy: ["example.org", "api.example.net:8443"],
+      proxyRules: [],
+    });
+
+    expect(selectProxy(new URL("http://example.com/"))).toBe("http://plain:3128");
+    expect(selectProxy(new URL("https://example.com/"))).toBe("http://secure:3128");
+    expect(selectProxy(new URL("https://docs.example.org/"))).toBeNull();
+    expect(selectProxy(new URL("https://example.org/"))).toBeNull();
+    expect(selectProxy(new URL("https://notexample.org/"))).toBe("http://secure:3128");
+    expect(selectProxy(new URL("https://api.example.net:8443/"))).toBeNull();
+    expect(selectProxy(new URL("https://api.example.net/"))).toBe("http://secure:3128");
+  });
+
+  it("should apply the first matching rule before NO_PROXY", () => {
+    configure({
+      httpsProxy: "http://secure:3128",
+      noProxy: ["*"],
+      proxyRules: [
+        { pattern: "*.partner.example", proxy: "http://partner-proxy:8080" },
+        { pattern: "*", proxy: null },
+      ],
+    });
+
+    expect(selectProxy(new URL("https://shop.partner.example/"))).toBe("http://partner-proxy:8080");
+    expect(selectProxy(new URL("https://partner.example/"))).toBeNull();
+  });
+});
+
+describe("fetchUrl through a proxy", () => {
+  let origin: Server;
+  let proxy: Server;
+  let originUrl: string;
+  let proxyUrl: string;
+  const originalConfig = getConfig();
+  const proxied: Array<{ target: string; auth?: string }> = [];
+
+  beforeAll(async () => {
+    origin = createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<p>direct</p>");
+    });
+    // Answers forwarded requests itself instead of contacting the target
+    proxy = createServer((req, res) => {
+      proxied.push({ target: req.url ?? "", auth: req.headers["proxy-authorization"] });
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<p>via proxy</p>");
+    });
+    originUrl = await listen(origin);
+    proxyUrl = await listen(proxy);
+    setResponseCache(undefined);
+  });
+
+  afterEach(() => {
+    proxied.length = 0;
+    configure(originalConfig);
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    await new Promise<void>((resolve) => origin.close(() => resolve()));
+    await new Promise<void>((resolve) => proxy.close(() => resolve()));
+  });
+
+  it("should forward requests with proxy credentials and record the proxy", async () => {
+    const withCredentials = proxyUrl.replace("http://", "http://user:s%3Acret@");
+    configure({ fetchAllowlist: ["localhost"], httpProxy: withCredentials, proxyRules: [] });
+
+    const result = await fetchUrl({ url: `${originUrl}/page`, bypass_cache: true });
+
+    expect(result.ok && result.data.html).toContain("via proxy");
+    expect(proxied).toEqual([
+      { target: `${originUrl}/page`, auth: `Basic ${Buffer.from("user:s:cret").toString("base64")}` },
+    ]);
+    expect(result.meta).toHaveProperty("proxy", proxyUrl);
+    expect(JSON.stringify(result)).not.toContain("cret");
+  });
+
+  it("should connect directly when a rule says so", async () => {
+    configure({
+      fetchAllowlist: ["localhost"],
+      httpProxy: proxyUrl,
+      proxyRules: [{ pattern: "localhost", proxy: null }],
+    });
+
+    const result = await fetchUrl({ url: `${originUrl}/page`, bypass_cache: true });
+
+    expect(result.ok && result.data.html).toContain("direct");
+    expect(result.meta).not.toHaveProperty("proxy");
+    expect(proxied).toHaveLength(0);
+  });
+
+  it("should still refuse private destinations when proxied", async () => {
+    configure({ fetchAllowlist: [], httpProxy: proxyUrl, proxyRules: [] });
+
+    const result = await fetchUrl({ url: `${originUrl}/page`, bypass_cache: true });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("BLOCKED_DESTINATION");
+    }
+    expect(proxied).toHaveLength(0);
+  });
+
+  it("should refuse names that do not resolve locally unless allowlisted", async () => {
+    configure({ fetchAllowlist: [], httpProxy: proxyUrl, proxyRules: [] });
+    const refused = await fetchUrl({ url: "http://intranet.invalid/page", bypass_cache: true });
+
+    expect(!refused.ok && refused.error.code).toBe("BLOCKED_DESTINATION");
+    expect(proxied).toHaveLength(0);
+
+    configure({ fetchAllowlist: ["intranet.invalid"], httpProxy: proxyUrl, proxyRules: [] });
+    const allowed = await fetchUrl({ url: "http://intranet.invalid/page", bypass_cache: true });
+
+    expect(allowed.ok && allowed.data.html).toContain("via proxy");
+    expect(proxied).toEqual([{ target: "http://intranet.invalid/page", auth: undefined }]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import * as cheerio from "cheerio";
+import { findMainContent } from "../../src/formats/readability.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+const PARAGRAPH =
+  "The committee met on Tuesday, reviewed the budget, and agreed to fund the new library wing, which will open next spring after a long delay.";
+
+function paragraphs(count: number, prefix = ""): string {
+  return Array.from({ length: count }, (_, i) => `<p>${prefix}${i + 1}. ${PARAGRAPH}</p>`).join("");
+}
+
+describe("findMainContent", () => {
+  it("should prefer the densest block over a small <article> teaser", () => {
+    const $ = cheerio.load(`
+      <body>
+        <article class="teaser"><h3>Also read</h3><p>A short teaser for another story.</p></article>
+        <div id="story">${paragraphs(5)}</div>
+      </body>
+    `);
+
+    const main = findMainContent($);
+
+    expect(main.selector).toBe("div#story");
+    expect(main.score).toBeGreaterThan(20);
+    expect(main.nodes.text()).toContain("5. The committee");
+    expect(main.nodes.text()).not.toContain("short teaser");
+  });
+
+  it("should look inside a .content wrapper around the whole layout", () => {
+    const $ = cheerio.load(`
+      <body>
+        <div class="content">
+          <div class="links"><a href="/a">Home page of the site, with all sections</a><a href="/b">Archive of every story ever published</a></div>
+          <div class="body-text">${paragraphs(4)}</div>
+          <div class="promo">Subscribe today and save, with offers, deals and more, for every reader.</div>
+        </div>
+      </body>
+    `);
+
+    const main = findMainContent($);
+
+    expect(main.selector).toBe("html > body > div.content > div.body-text");
+    expect(main.nodes.text()).not.toContain("Archive of every story");
+  });
+
+  it("should penalise link-heavy blocks", () => {
+    const links = Array.from(
+      { length: 6 },
+      (_, i) => `<p><a href="/${i}">${PARAGRAPH}</a></p>`
+    ).join("");
+    const $ = cheerio.load(`<body><div id="links">${links}</div><div id="text">${paragraphs(3)}</div></body>`);
+
+    expect(findMainContent($).selector).toBe("div#text");
+  });
+
+  it("should merge sibling blocks of a split article", () => {
+    const $ = cheerio.load(`
+      <body>
+        <div id="wrapper">
+          <div class="part">${paragraphs(4, "a")}</div>
+          <div class="ad-slot">Advertisement</div>
+          <div class="part">${paragraphs(3, "b")}</div>
+        </div>
+      </body>
+    `);
+
+    const main = findMainContent($);
+
+    expect(main.merged).toHaveLength(1);
+    expect(main.nodes).toHaveLength(2);
+    expect(main.nodes.text()).toContain("a1.");
+    expect(main.nodes.text()).toContain("b3.");
+    expect(main.nodes.text()).not.toContain("Advertisement");
+  });
+
+  it("should keep the body when its own paragraphs outscore an <article> teaser", () => {
+    const $ = cheerio.load(
+      `<body>${paragraphs(3)}<article class="teaser"><h3>Related</h3><p>Short teaser</p></article></body>`
+    );
+
+    const main = findMainContent($);
+
+    expect(main).toMatchObject({ selector: "html > body", score: 18, method: "scoring" });
+    expect(main.nodes.text()).toContain("3. The committee");
+  });
+
+  it("should prefer a landmark that holds most of the body's content", () => {
+    const $ = cheerio.load(`<body>${paragraphs(2, "b")}<main>${paragraphs(3)}</main></body>`);
+
+    const main = findMainContent($);
+
+    // The body scores highest, with the <main> close behind
+    expect(main).toMatchObject({ selector: "html > body > main", score: 18, method: "scoring" });
+    expect(main.nodes.text()).not.toContain("b1.");
+  });
+
+  it("should fall back to <main> when nothing can be scored", () => {
+    const $ = cheerio.load("<body><div>Menu</div><main><h1>Hi</h1><ul><li>One</li></ul></main></body>");
+
+    const main = findMainContent($);
+
+    expect(main.selector).toBe("html > body > main");
+    expect(main.score).toBe(0);
+  });
+});
+
+describe("extractReadableMarkdown main content", () => {
+  it("should report the chosen node and its score", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: `<body><article class="card"><p>Teaser text for a different page entirely.</p></article><section><div class="entry-content">${paragraphs(3)}</div></section></body>`,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      // The chosen div is the section's only child, so the section is used
+      expect(result.data.main_content?.selector).toBe("html > body > section");
+      expect(result.data.main_content?.score).toBeGreaterThan(0);
+      expect(result.data.markdown).toContain("3\\. The committee");
+      expect(result.data.markdown).not.toContain("Teaser text");
+    }
+  });
+
+  it("should convert body-level prose rather than a teaser <article>", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: `<body>${paragraphs(3)}<article class="teaser"><h3>Related</h3><p>Short teaser</p></article></body>`,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.main_content).toMatchObject({ selector: "html > body", method: "scoring" });
+      expect(result.data.markdown).toContain("1\\. The committee");
+      expect(result.data.markdown).toContain("3\\. The committee");
+    }
+  });
+});
+
+describe("extractReadableMarkdown selectors", () => {
+  const PAGE = `<body>
+    <header class="byline"><p>By Jane Doe, staff writer</p></header>
+    <div class="related">${paragraphs(6, "r")}</div>
+    <div id="story">${paragraphs(2)}<p class="note">Editor's note: corrected.</p></div>
+  </body>`;
+
+  it("should convert the content_selector matches instead of scoring", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: PAGE, content_selector: "#story" });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.main_content).toMatchObject({ selector: "#story", method: "content_selector" });
+      expect(result.data.markdown).toContain("2\\. The committee");
+      expect(result.data.markdown).not.toContain("r1\\.");
+    }
+  });
+
+  it("should warn and score the page when content_selector matches nothing", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: PAGE, content_selector: "#missing" });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.main_content?.method).toBe("scoring");
+      expect(result.meta.warnings.some((warning) => warning.includes("#missing"))).toBe(true);
+    }
+  });
+
+  it("should protect include_selectors and apply exclude_selectors", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: PAGE,
+      content_selector: "body",
+      include_selectors: [".byline"],
+      exclude_selectors: [".related", ".note"],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.markdown).toContain("By Jane Doe");
+      expect(result.data.markdown).not.toContain("r1\\.");
+      expect(result.data.markdown).not.toContain("Editor's note");
+    }
+  });
+
+  it("should skip the default filter when keep_defaults is false", async () => {
+    const html = `<body><nav><p>Section index</p></nav><script>track()</script><main>${paragraphs(2)}</main></body>`;
+
+    const filtered = await extractReadableMarkdown({ html_or_url: html, content_selector: "body" });
+    const unfiltered = await extractReadableMarkdown({
+      html_or_url: html,
+      content_selector: "body",
+      keep_defaults: false,
+    });
+
+    expect(filtered.ok && filtered.data.markdown).not.toContain("Section index");
+    expect(unfiltered.ok && unfiltered.data.markdown).toContain("Section index");
+    expect(unfiltered.ok && unfiltered.data.markdown).not.toContain("track()");
+  });
+
+  it("should reject invalid selectors with INVALID_INPUT naming them", async () => {
+    const result = await extractReadableMarkdown({
+      html_or_url: PAGE,
+      exclude_selectors: [".ads", "div["],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+      expect(result.error.message).toContain("div[");
+      expect(result.error.details).toMatchObject({ field: "exclude_selectors[1]", selector: "div[" });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  TOOLS,
+  getTool,
+  listTools,
+  runTool,
+  toCallToolResult,
+} from "../../src/tools/registry.js";
+import { createErrorResponse, createSuccessResponse } from "../../src/tools/fetch.js";
+
+describe("Tool Registry", () => {
+  it("should declare every tool exactly once", () => {
+    const names = TOOLS.map((tool) => tool.name);
+    expect(names).toEqual([
+      "fetch_url",
+      "extract_readable_markdown",
+      "extract_tables",
+      "extract_metadata",
+      "list_cookies",
+      "set_cookies",
+      "clear_cookies",
+      "extract_from_warc",
+    ]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it("should list tools with input and output schemas but no handler", () => {
+    for (const tool of listTools()) {
+      expect(tool.inputSchema.type).toBe("object");
+      expect(tool.outputSchema.type).toBe("object");
+      expect(tool).not.toHaveProperty("handler");
+    }
+  });
+
+  it("should look up tools by name", () => {
+    expect(getTool("extract_tables")?.name).toBe("extract_tables");
+    expect(getTool("unknown_tool")).toBeUndefined();
+  });
+
+  it("should run a tool and return its envelope", async () => {
+    const tool = getTool("extract_tables")!;
+    const result = await runTool(tool, {
+      html_or_url: "<table><tr><th>A</th></tr><tr><td>1</td></tr></table>",
+    });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("should convert handler exceptions into INTERNAL_ERROR envelopes", async () => {
+    const result = await runTool(
+      {
+        ...getTool("extract_tables")!,
+        handler: async () => {
+          throw new Error("boom");
+        },
+      },
+      { html_or_url: "<p>x</p>" }
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INTERNAL_ERROR");
+      expect(result.error.message).toBe("boom");
+    }
+  });
+
+  it("should reject invalid arguments before dispatch", async () => {
+    const result = await runTool(getTool("fetch_url")!, {
+      url: "https://example.com",
+      timeout_ms: "abc",
+      headers: [1, 2],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+      expect(result.error.message).toContain("$.timeout_ms must be number");
+      expect(result.error.details).toEqual({
+        tool: "fetch_url",
+        errors: [
+          {
+            path: "$.timeout_ms",
+            message: "must be number",
+            expected: "number",
+            received: "abc",
+          },
+          {
+            path: "$.headers",
+            message: "must be object",
+            expected: "object",
+            received: [1, 2],
+          },
+        ],
+      });
+    }
+  });
+
+  describe("toCallToolResult", () => {
+    it("should return structured content for success envelopes", () => {
+      const envelope = createSuccessResponse({ value: 1 });
+      const result = toCallToolResult(envelope);
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toEqual(envelope);
+      expect(JSON.parse(result.content[0].text)).toEqual(envelope);
+    });
+
+    it("should flag error envelopes with isError", () => {
+      const envelope = createErrorResponse("INVALID_INPUT", "bad");
+      const result = toCallToolResult(envelope);
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(JSON.parse(result.content[0].text)).toEqual(envelope);
+    });
+  });
+});
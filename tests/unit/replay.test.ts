@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { configure, getConfig } from "../../src/config.js";
+import { resetFixtureStores } from "../../src/net/replay.js";
+import { setResponseCache } from "../../src/net/cache.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+
+describe("record and replay", () => {
+  let server: Server;
+  let baseUrl: string;
+  let dir: string;
+  const originalConfig = getConfig();
+  const hits: string[] = [];
+  let counter = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits.push(`${req.method} ${req.url}`);
+      switch (req.url) {
+        case "/moved":
+          res.writeHead(301, { Location: "/page" });
+          res.end();
+          return;
+        case "/counter":
+          counter++;
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end(`count ${counter}`);
+          return;
+        case "/cp1251":
+          res.writeHead(200, { "Content-Type": "text/html; charset=windows-1251" });
+          res.end(Buffer.from([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]));
+          return;
+        case "/long":
+          // Streamed, so no Content-Length gives the size away up front
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.write("a".repeat(600));
+          res.end("b".repeat(600));
+          return;
+        case "/gzip": {
+          const body = gzipSync("<p>compressed page</p>");
+          res.writeHead(200, {
+            "Content-Type": "text/html",
+            "Content-Encoding": "gzip",
+            "Content-Length": body.byteLength,
+          });
+          res.end(body);
+          return;
+        }
+        case "/submit": {
+          const chunks: Buffer[] = [];
+          req.on("data", (chunk: Buffer) => chunks.push(chunk));
+          req.on("end", () => {
+            res.writeHead(200, { "Content-Type": "text/plain" });
+            res.end(`got ${Buffer.concat(chunks).toString()}`);
+          });
+          return;
+        }
+        default:
+          res.setHeader("Set-Cookie", ["a=1", "b=2"]);
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end("<p>recorded page</p>");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+    setResponseCache(undefined);
+  });
+
+  afterEach(() => {
+    configure(originalConfig);
+    resetFixtureStores();
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    rmSync(dir, { recursive: true, force: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  for (const format of ["directory", "HAR file"]) {
+    it(`should replay a recorded ${format} without the network`, async () => {
+      const fixturesPath = join(dir, format === "directory" ? "recordings" : "recordings.har");
+      const request = {
+        url: `${baseUrl}/moved`,
+        include_headers: true,
+        bypass_cache: true,
+        headers: { Authorization: "Bearer top-secret" },
+      };
+
+      configure({ fetchAllowlist: ["localhost"], fetchMode: "record", fixturesPath });
+      const recorded = await fetchUrl(request);
+      const posted = await fetchUrl({
+        url: `${baseUrl}/submit`,
+        method: "POST",
+        form: { q: "widgets" },
+        bypass_cache: true,
+      });
+
+      resetFixtureStores();
+      hits.length = 0;
+      configure({ fetchMode: "replay" });
+      const replayed = await fetchUrl(request);
+      const replayedPost = await fetchUrl({
+        url: `${baseUrl}/submit`,
+        method: "POST",
+        form: { q: "widgets" },
+        bypass_cache: true,
+      });
+
+      expect(hits).toEqual([]);
+      expect(replayed.ok && replayed.data.html).toBe("<p>recorded page</p>");
+      expect(replayedPost.ok && replayedPost.data.html).toBe("got q=widgets");
+      if (recorded.ok && replayed.ok && posted.ok) {
+        expect(replayed.data.redirects).toEqual(recorded.data.redirects);
+        expect(replayed.data.headers?.["set-cookie"]).toEqual(["a=1", "b=2"]);
+      }
+
+      const text =
+        format === "directory"
+          ? readdirSync(fixturesPath, { recursive: true, encoding: "utf-8" })
+              .filter((file) => file.endsWith(".json"))
+              .map((file) => readFileSync(join(fixturesPath, file), "utf-8"))
+              .join("\n")
+          : readFileSync(fixturesPath, "utf-8");
+      expect(text).not.toContain("top-secret");
+      if (format === "HAR file") {
+        const har = JSON.parse(text);
+        expect(har.log.version).toBe("1.2");
+        expect(har.log.entries).toHaveLength(3);
+      }
+    });
+  }
+
+  it("should replay binary bodies and repeated requests in order", async () => {
+    const fixturesPath = join(dir, "sequence.har");
+    configure({ fetchAllowlist: ["localhost"], fetchMode: "record", fixturesPath });
+    await fetchUrl({ url: `${baseUrl}/counter`, bypass_cache: true });
+    await fetchUrl({ url: `${baseUrl}/counter`, bypass_cache: true });
+    await fetchUrl({ url: `${baseUrl}/cp1251`, bypass_cache: true });
+
+    resetFixtureStores();
+    configure({ fetchMode: "replay" });
+    const bodies = [];
+    for (let i = 0; i < 3; i++) {
+      const result = await fetchUrl({ url: `${baseUrl}/counter`, bypass_cache: true });
+      bodies.push(result.ok && result.data.html);
+    }
+    const binary = await fetchUrl({ url: `${baseUrl}/cp1251`, bypass_cache: true });
+
+    expect(bodies).toEqual([`count ${counter - 1}`, `count ${counter}`, `count ${counter}`]);
+    expect(binary.ok && binary.data.html).toBe("Привет");
+  });
+
+  it("should record bodies up to the call's max_bytes and replay them as truncated", async () => {
+    const fixturesPath = join(dir, "long.har");
+    const request = {
+      url: `${baseUrl}/long`,
+      max_bytes: 1000,
+      on_max_bytes: "truncate" as const,
+      bypass_cache: true,
+    };
+    configure({ fetchAllowlist: ["localhost"], fetchMode: "record", fixturesPath });
+    const recorded = await fetchUrl(request);
+
+    const har = JSON.parse(readFileSync(fixturesPath, "utf-8"));
+    expect(recorded.ok && recorded.data.html).toHaveLength(1000);
+    expect(har.log.entries[0].response.content).toMatchObject({ size: 1000, _truncated: true });
+
+    resetFixtureStores();
+    hits.length = 0;
+    configure({ fetchMode: "replay" });
+    const replayed = await fetchUrl(request);
+    const refused = await fetchUrl({ url: `${baseUrl}/long`, max_bytes: 2000, bypass_cache: true });
+
+    expect(hits).toEqual([]);
+    expect(replayed.ok && replayed.data.html).toBe("a".repeat(600) + "b".repeat(400));
+    expect(replayed.ok && replayed.meta.warnings).toContain(
+      "Response body truncated to 1000 bytes (max_bytes)"
+    );
+    expect(!refused.ok && refused.error.code).toBe("RESPONSE_TOO_LARGE");
+  });
+
+  it("should record decoded bodies with headers that match them", async () => {
+    const fixturesPath = join(dir, "gzip.har");
+    const request = { url: `${baseUrl}/gzip`, include_headers: true, bypass_cache: true };
+    configure({ fetchAllowlist: ["localhost"], fetchMode: "record", fixturesPath });
+    const recorded = await fetchUrl(request);
+
+    resetFixtureStores();
+    hits.length = 0;
+    configure({ fetchMode: "replay" });
+    const replayed = await fetchUrl(request);
+
+    expect(hits).toEqual([]);
+    for (const result of [recorded, replayed]) {
+      expect(result.ok && result.data.html).toBe("<p>compressed page</p>");
+      expect(result.ok && result.data.headers).toMatchObject({
+        "content-length": ["22"],
+        "x-archive-orig-content-encoding": ["gzip"],
+      });
+      expect(result.ok && result.data.headers?.["content-encoding"]).toBeUndefined();
+    }
+  });
+
+  it("should fail loudly on requests that were not recorded", async () => {
+    const fixturesPath = join(dir, "empty");
+    configure({ fetchAllowlist: ["localhost"], fetchMode: "replay", fixturesPath });
+
+    const result = await fetchUrl({ url: `${baseUrl}/never-recorded`, bypass_cache: true });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("REPLAY_MISS");
+      expect(result.error.details).toMatchObject({
+        method: "GET",
+        unmatched_url: `${baseUrl}/never-recorded`,
+        fixtures: fixturesPath,
+      });
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  backoffDelay,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "../../src/net/retry.js";
+
+describe("Retry helpers", () => {
+  it("should retry 429 and transient 5xx statuses", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(501)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+
+  it("should retry connection resets found in the error cause chain", () => {
+    const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+    expect(isRetryableError(new TypeError("fetch failed", { cause: reset }))).toBe(true);
+    expect(isRetryableError(new Error("boom"))).toBe(false);
+  });
+
+  it("should parse Retry-After seconds and HTTP-dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Sun, 31 Dec 2023 23:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it("should keep jittered backoff within the exponential bound and ceiling", () => {
+    for (let i = 0; i < 50; i++) {
+      expect(backoffDelay(0, 100, 10_000)).toBeLessThanOrEqual(100);
+      expect(backoffDelay(3, 100, 10_000)).toBeLessThanOrEqual(800);
+      expect(backoffDelay(10, 100, 1000)).toBeLessThanOrEqual(1000);
+      expect(backoffDelay(2, 100, 10_000)).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { configure, getConfig } from "../../src/config.js";
+import {
+  clearRobotsCache,
+  getRobotsRules,
+  parseRobotsTxt,
+  productToken,
+} from "../../src/net/robots.js";
+import { HostScheduler } from "../../src/net/politeness.js";
+
+const UA = "webpage-extract/1.0.0";
+
+describe("robots.txt parsing", () => {
+  it("should derive the product token from the user agent", () => {
+    expect(productToken(UA)).toBe("webpage-extract");
+    expect(productToken("Mozilla/5.0 (X11)")).toBe("mozilla");
+  });
+
+  it("should prefer groups naming the product token over *", () => {
+    const rules = parseRobotsTxt(
+      "User-agent: *\nDisallow: /\n\nUser-agent: webpage-extract\nDisallow: /private\n",
+      UA
+    );
+    expect(rules.isAllowed("/page")).toBe(true);
+    expect(rules.isAllowed("/private/page")).toBe(false);
+  });
+
+  it("should let the longest matching rule win, with Allow winning ties", () => {
+    const rules = parseRobotsTxt(
+      "User-agent: *\nDisallow: /docs\nAllow: /docs/public\nDisallow: /same\nAllow: /same\n",
+      UA
+    );
+    expect(rules.isAllowed("/docs/secret")).toBe(false);
+    expect(rules.isAllowed("/docs/public/a")).toBe(true);
+    expect(rules.isAllowed("/same")).toBe(true);
+  });
+
+  it("should support * wildcards and $ anchors", () => {
+    const rules = parseRobotsTxt("User-agent: *\nDisallow: /*.pdf$\nDisallow: /*?session=\n", UA);
+    expect(rules.isAllowed("/files/report.pdf")).toBe(false);
+    expect(rules.isAllowed("/files/report.pdf?x=1")).toBe(true);
+    expect(rules.isAllowed("/search?session=1")).toBe(false);
+  });
+
+  it("should share rules between consecutive user-agent lines", () => {
+    const rules = parseRobotsTxt(
+      "User-agent: other\nUser-agent: webpage-extract\nDisallow: /x\nCrawl-delay: 2\n",
+      UA
+    );
+    expect(rules.isAllowed("/x")).toBe(false);
+    expect(rules.crawlDelayMs).toBe(2000);
+  });
+
+  it("should cap Crawl-delay and always allow /robots.txt", () => {
+    const rules = parseRobotsTxt("User-agent: *\nDisallow: /\nCrawl-delay: 3600\n", UA);
+    expect(rules.crawlDelayMs).toBe(30_000);
+    expect(rules.isAllowed("/robots.txt")).toBe(true);
+    expect(rules.isAllowed("/")).toBe(false);
+  });
+
+  it("should allow everything when no group applies", () => {
+    const rules = parseRobotsTxt("User-agent: otherbot\nDisallow: /\n", UA);
+    expect(rules.isAllowed("/anything")).toBe(true);
+    expect(rules.crawlDelayMs).toBe(0);
+  });
+});
+
+describe("HostScheduler", () => {
+  it("should limit concurrent requests per origin", async () => {
+    const scheduler = new HostScheduler();
+    const first = await scheduler.acquire("http://a.test", 1, 0);
+
+    let secondAcquired = false;
+    const second = scheduler.acquire("http://a.test", 1, 0).then((release) => {
+      secondAcquired = true;
+      return release;
+    });
+    const other = await scheduler.acquire("http://b.test", 1, 0);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(secondAcquired).toBe(false);
+
+    first();
+    first();
+    (await second)();
+    other();
+    expect(secondAcquired).toBe(true);
+  });
+
+  it("should space out request start times", async () => {
+    const scheduler = new HostScheduler();
+    const started = Date.now();
+    for (let i = 0; i < 3; i++) {
+      (await scheduler.acquire("http://a.test", 4, 50))();
+    }
+    expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+  });
+
+  it("should forget origins once they go idle", async () => {
+    const scheduler = new HostScheduler();
+    (await scheduler.acquire("http://a.test", 1, 0))();
+    const release = await scheduler.acquire("http://b.test", 1, 50);
+    release();
+
+    expect([...scheduler["hosts"].keys()]).toEqual(["http://b.test"]);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(scheduler["hosts"].size).toBe(0);
+  });
+
+  it("should stop waiting when the signal aborts", async () => {
+    const scheduler = new HostScheduler();
+    const held = await scheduler.acquire("http://a.test", 1, 0);
+    const controller = new AbortController();
+    const waiting = scheduler.acquire("http://a.test", 1, 0, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow();
+
+    held();
+    (await scheduler.acquire("http://a.test", 1, 0))();
+  });
+});
+
+describe("getRobotsRules", () => {
+  let server: Server;
+  let baseUrl: string;
+  const originalConfig = getConfig();
+  let hits = 0;
+  let robotsRedirects: "endless" | "nowhere" | undefined;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits++;
+      const hop = req.url?.match(/^\/hop\/(\d+)$/);
+      if (hop || robotsRedirects) {
+        // robots.txt redirects on and on, or nowhere
+        const location = hop ? `/hop/${parseInt(hop[1], 10) + 1}` : "/hop/1";
+        res.writeHead(302, robotsRedirects === "endless" ? { Location: location } : {});
+        res.end();
+        return;
+      }
+      setTimeout(() => {
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.end("User-agent: *\nDisallow: /private\n");
+      }, 50);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    configure({ fetchAllowlist: ["localhost"] });
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    clearRobotsCache();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should keep the shared fetch going when one caller aborts", async () => {
+    clearRobotsCache();
+    const url = new URL(`${baseUrl}/private/page`);
+    const controller = new AbortController();
+    const aborted = getRobotsRules(url, UA, controller.signal);
+    const waiting = getRobotsRules(url, UA, new AbortController().signal);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow();
+    const rules = await waiting;
+    expect(rules.unavailableReason).toBeUndefined();
+    expect(rules.isAllowed("/private/page")).toBe(false);
+    expect((await getRobotsRules(url, UA)).isAllowed("/")).toBe(true);
+    expect(hits).toBe(1);
+  });
+
+  for (const redirects of ["endless", "nowhere"] as const) {
+    it(`should allow everything when robots.txt redirects ${redirects}`, async () => {
+      clearRobotsCache();
+      hits = 0;
+      robotsRedirects = redirects;
+      try {
+        const rules = await getRobotsRules(new URL(`${baseUrl}/private/page`), UA);
+
+        expect(rules.unavailableReason).toBeUndefined();
+        expect(rules.isAllowed("/private/page")).toBe(true);
+        // robots.txt itself and five redirects, or robots.txt alone
+        expect(hits).toBe(redirects === "endless" ? 6 : 1);
+      } finally {
+        robotsRedirects = undefined;
+        clearRobotsCache();
+      }
+    });
+  }
+});
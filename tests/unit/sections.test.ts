@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { findSection, markdownSection, sectionPath } from "../../src/formats/sections.js";
+import { extractReadableMarkdown } from "../../src/tools/markdown.js";
+
+const PAGE = `<html><body>
+  <header><h1>Acme CLI</h1></header>
+  <main>
+    <p>Acme is a command-line tool.</p>
+    <section>
+      <h2>Installation</h2>
+      <p>Install it with npm.</p>
+      <h3>Linux</h3>
+      <p>Use the tarball on Linux.</p>
+    </section>
+    <section>
+      <h2>Pricing</h2>
+      <p>Free for open source.</p>
+    </section>
+  </main>
+</body></html>`;
+
+const HEADINGS = [
+  { level: 1, text: "Acme CLI" },
+  { level: 2, text: "Installation" },
+  { level: 3, text: "Linux" },
+  { level: 2, text: "Pricing" },
+];
+
+describe("findSection", () => {
+  it("should prefer exact text matches and fall back to substrings", () => {
+    const headings = [{ level: 2, text: "Pricing plans" }, ...HEADINGS];
+
+    expect(findSection(headings, { text: "  pricing " })).toBe(4);
+    expect(findSection(headings, { text: "install" })).toBe(2);
+    expect(findSection(headings, { pattern: /^lin/i })).toBe(3);
+    expect(findSection(headings, { index: 9 })).toBe(-1);
+  });
+
+  it("should report the enclosing headings", () => {
+    expect(sectionPath(HEADINGS, 2)).toEqual(["Acme CLI", "Installation"]);
+    expect(sectionPath(HEADINGS, 3)).toEqual(["Acme CLI"]);
+    expect(sectionPath(HEADINGS, 0)).toEqual([]);
+  });
+
+  it("should cut a Markdown section at the next heading of equal or higher level", () => {
+    const markdown = "# A\n\nintro\n\n## B\n\n```\n# not a heading\n```\n\n### C\n\nc\n\n## D\n\nd";
+
+    expect(markdownSection(markdown, 1)).toBe("## B\n\n```\n# not a heading\n```\n\n### C\n\nc");
+  });
+});
+
+describe("extractReadableMarkdown sections", () => {
+  it("should return only the matching section and its outline position", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: PAGE, section: "installation" });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.markdown).toBe(
+        "## Installation\n\nInstall it with npm.\n\n### Linux\n\nUse the tarball on Linux."
+      );
+      expect(result.data.section).toEqual({
+        index: 1,
+        level: 2,
+        text: "Installation",
+        path: ["Acme CLI"],
+      });
+      expect(result.data.headings).toEqual(HEADINGS);
+      expect(result.data.main_content).toBeUndefined();
+    }
+  });
+
+  it("should select sections by pattern and index, even in removed boilerplate", async () => {
+    const byPattern = await extractReadableMarkdown({ html_or_url: PAGE, section_pattern: "^pric" });
+    const byIndex = await extractReadableMarkdown({ html_or_url: PAGE, section_index: 0 });
+
+    expect(byPattern.ok && byPattern.data.markdown).toBe("## Pricing\n\nFree for open source.");
+    expect(byIndex.ok && byIndex.data.markdown).toContain("# Acme CLI");
+    expect(byIndex.ok && byIndex.data.markdown).toContain("Free for open source.");
+  });
+
+  it("should list the available headings when nothing matches", async () => {
+    const result = await extractReadableMarkdown({ html_or_url: PAGE, section: "Support" });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("INVALID_INPUT");
+      expect(result.error.message).toContain('"Support"');
+      expect(result.error.details?.available_headings).toEqual(
+        HEADINGS.map((heading, index) => ({ index, ...heading }))
+      );
+    }
+  });
+
+  it("should reject conflicting or invalid section options", async () => {
+    const results = await Promise.all([
+      extractReadableMarkdown({ html_or_url: PAGE, section: "Pricing", section_index: 1 }),
+      extractReadableMarkdown({ html_or_url: PAGE, section_pattern: "(" }),
+      extractReadableMarkdown({ html_or_url: PAGE, section: "Pricing", content_selector: "main" }),
+    ]);
+
+    for (const result of results) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("INVALID_INPUT");
+      }
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { classifyAddress, assertUrlAllowed, BlockedDestinationError } from "../../src/net/ssrf.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+import { configure, getConfig } from "../../src/config.js";
+
+describe("classifyAddress", () => {
+  it("should allow public addresses", () => {
+    expect(classifyAddress("93.184.216.34")).toBeNull();
+    expect(classifyAddress("8.8.8.8")).toBeNull();
+    expect(classifyAddress("2606:4700:4700::1111")).toBeNull();
+  });
+
+  it("should block private, loopback and link-local IPv4 ranges", () => {
+    expect(classifyAddress("127.0.0.1")).toBe("loopback");
+    expect(classifyAddress("10.1.2.3")).toBe("private");
+    expect(classifyAddress("172.31.255.255")).toBe("private");
+    expect(classifyAddress("192.168.0.10")).toBe("private");
+    expect(classifyAddress("169.254.169.254")).toBe("link-local");
+    expect(classifyAddress("100.100.100.200")).toBe("carrier-grade NAT");
+    expect(classifyAddress("0.0.0.0")).toBe("unspecified");
+    expect(classifyAddress("224.0.0.1")).toBe("multicast");
+    expect(classifyAddress("255.255.255.255")).toBe("broadcast");
+  });
+
+  it("should not over-match neighbouring public ranges", () => {
+    expect(classifyAddress("172.32.0.1")).toBeNull();
+    expect(classifyAddress("11.0.0.1")).toBeNull();
+  });
+
+  it("should block non-public IPv6 ranges", () => {
+    expect(classifyAddress("::1")).toBe("loopback");
+    expect(classifyAddress("::")).toBe("unspecified");
+    expect(classifyAddress("fe80::1")).toBe("link-local");
+    expect(classifyAddress("fd12:3456::1")).toBe("unique local");
+    expect(classifyAddress("ff02::1")).toBe("multicast");
+  });
+
+  it("should check IPv4 addresses embedded in IPv6", () => {
+    expect(classifyAddress("::ffff:127.0.0.1")).toBe("loopback");
+    expect(classifyAddress("::ffff:a9fe:a9fe")).toBe("link-local");
+    expect(classifyAddress("64:ff9b::10.0.0.1")).toBe("private");
+    expect(classifyAddress("2002:c0a8:0101::1")).toBe("private");
+    expect(classifyAddress("::ffff:8.8.8.8")).toBeNull();
+  });
+});
+
+describe("assertUrlAllowed", () => {
+  it("should block decimal, octal and hex IPv4 literals", () => {
+    expect(() => assertUrlAllowed(new URL("http://2130706433/"))).toThrow(BlockedDestinationError);
+    expect(() => assertUrlAllowed(new URL("http://0177.0.0.1/"))).toThrow(BlockedDestinationError);
+    expect(() => assertUrlAllowed(new URL("http://0x7f.1/"))).toThrow(BlockedDestinationError);
+    expect(() => assertUrlAllowed(new URL("http://[::ffff:169.254.169.254]/"))).toThrow(
+      BlockedDestinationError
+    );
+  });
+
+  it("should leave hostnames to the connection-time check", () => {
+    expect(() => assertUrlAllowed(new URL("http://example.com/"))).not.toThrow();
+  });
+});
+
+describe("fetchUrl destination guard", () => {
+  let server: Server;
+  let port: number;
+  const originalConfig = getConfig();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/redirect-literal") {
+        res.writeHead(302, { Location: `http://127.0.0.1:${port}/` });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<html><body>internal</body></html>");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const address = server.address();
+    port = typeof address === "object" && address ? address.port : 0;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    configure(originalConfig);
+  });
+
+  it("should block loopback IP literals", async () => {
+    const result = await fetchUrl({ url: `http://127.0.0.1:${port}/` });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("BLOCKED_DESTINATION");
+      expect(result.error.details?.address).toBe("127.0.0.1");
+    }
+  });
+
+  it("should block hostnames that resolve to private addresses", async () => {
+    const result = await fetchUrl({ url: `http://localhost:${port}/` });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("BLOCKED_DESTINATION");
+      expect(result.error.details?.hostname).toBe("localhost");
+    }
+  });
+
+  it("should allow hosts on the allowlist", async () => {
+    configure({ fetchAllowlist: ["localhost"] });
+
+    const result = await fetchUrl({ url: `http://localhost:${port}/` });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.html).toContain("internal");
+    }
+  });
+
+  it("should allow CIDR allowlist entries", async () => {
+    configure({ fetchAllowlist: ["127.0.0.0/8"] });
+
+    const result = await fetchUrl({ url: `http://127.0.0.1:${port}/` });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("should re-check the destination on every redirect hop", async () => {
+    configure({ fetchAllowlist: ["localhost"] });
+
+    const result = await fetchUrl({ url: `http://localhost:${port}/redirect-literal` });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe("BLOCKED_DESTINATION");
+    }
+  });
+});
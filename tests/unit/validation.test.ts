@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { validateAgainstSchema } from "../../src/tools/validation.js";
+import type { JsonSchema } from "../../src/types.js";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    headers: { type: "object", additionalProperties: { type: "string" } },
+    timeout_ms: { type: "number", minimum: 1 },
+    mode: { type: "string", enum: ["fail", "truncate"] },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["url"],
+  additionalProperties: false,
+};
+
+describe("validateAgainstSchema", () => {
+  it("should accept valid input", () => {
+    expect(
+      validateAgainstSchema(
+        {
+          url: "https://example.com",
+          headers: { Accept: "text/html" },
+          timeout_ms: 500,
+          mode: "fail",
+          tags: ["a"],
+        },
+        schema
+      )
+    ).toEqual([]);
+  });
+
+  it("should report missing required properties", () => {
+    expect(validateAgainstSchema({}, schema)).toEqual([
+      { path: "$.url", message: "is required", expected: "string" },
+    ]);
+  });
+
+  it("should report a non-object root", () => {
+    const issues = validateAgainstSchema("nope", schema);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: "$", expected: "object", received: "nope" });
+  });
+
+  it("should report nested paths with expected type and received value", () => {
+    const issues = validateAgainstSchema(
+      { url: "x", headers: { "X-Count": 3 }, tags: ["a", false] },
+      schema
+    );
+
+    expect(issues).toEqual([
+      {
+        path: '$.headers["X-Count"]',
+        message: "must be string",
+        expected: "string",
+        received: 3,
+      },
+      {
+        path: "$.tags[1]",
+        message: "must be string",
+        expected: "string",
+        received: false,
+      },
+    ]);
+  });
+
+  it("should enforce enum and minimum", () => {
+    const issues = validateAgainstSchema(
+      { url: "x", mode: "drop", timeout_ms: 0 },
+      schema
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual(["$.mode", "$.timeout_ms"]);
+    expect(issues[0].expected).toBe('"fail" | "truncate"');
+  });
+
+  it("should reject unknown properties when additionalProperties is false", () => {
+    const issues = validateAgainstSchema({ url: "x", timeoutMs: 5 }, schema);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      path: "$.timeoutMs",
+      message: "is not a recognized property",
+      received: 5,
+    });
+  });
+
+  it("should reject NaN and Infinity as numbers", () => {
+    expect(validateAgainstSchema({ url: "x", timeout_ms: Infinity }, schema)).toHaveLength(1);
+  });
+
+  it("should truncate long received strings", () => {
+    const issues = validateAgainstSchema({ url: 1, mode: "x".repeat(500) }, schema);
+    expect(String(issues[1].received)).toContain("(500 chars)");
+  });
+});
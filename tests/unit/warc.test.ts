@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { configure, getConfig } from "../../src/config.js";
+import { readWarc, warcDigest } from "../../src/net/warc.js";
+import { fetchUrl } from "../../src/tools/fetch.js";
+import { extractTables } from "../../src/tools/tables.js";
+import { extractFromWarc } from "../../src/tools/warc.js";
+
+const ARTICLE = "<html><head><title>Archived</title></head><body><main><h1>Archived article</h1><p>Exactly these bytes.</p></main></body></html>";
+const TABLE = "<table><tr><th>Plan</th><th>Price</th></tr><tr><td>Basic</td><td>5</td></tr></table>";
+
+describe("WARC archiving", () => {
+  let server: Server;
+  let baseUrl: string;
+  let dir: string;
+  const originalConfig = getConfig();
+  const hits: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits.push(req.url ?? "");
+      switch (req.url) {
+        case "/old":
+          res.writeHead(301, { Location: "/article" });
+          res.end();
+          return;
+        case "/article":
+          res.writeHead(200, { "Content-Type": "text/html", "Content-Encoding": "gzip" });
+          res.end(gzipSync(ARTICLE));
+          return;
+        case "/prices":
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end(TABLE);
+          return;
+        default:
+          res.writeHead(404, { "Content-Type": "text/plain" });
+          res.end("not found");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    const address = server.address();
+    baseUrl = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    dir = mkdtempSync(join(tmpdir(), "warc-"));
+    configure({ fetchAllowlist: ["localhost"], warcDir: dir });
+  });
+
+  afterAll(async () => {
+    configure(originalConfig);
+    rmSync(dir, { recursive: true, force: true });
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should append request and response records for every hop", async () => {
+    const result = await fetchUrl({
+      url: `${baseUrl}/old`,
+      warc: "audit",
+      headers: { Authorization: "Bearer top-secret" },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.html).toBe(ARTICLE);
+    expect(result.meta.warc?.file).toBe("audit");
+    expect(result.meta.warc?.records).toHaveLength(4);
+
+    const records = await readWarc(join(dir, "audit.warc"));
+    expect(records.map((record) => record.headers.get("warc-type"))).toEqual([
+      "warcinfo",
+      "response",
+      "request",
+      "response",
+      "request",
+    ]);
+    expect(records.slice(1).map((record) => record.headers.get("warc-record-id"))).toEqual(
+      result.meta.warc?.records
+    );
+    expect(records.slice(1).map((record) => record.headers.get("warc-target-uri"))).toEqual([
+      `${baseUrl}/old`,
+      `${baseUrl}/old`,
+      `${baseUrl}/article`,
+      `${baseUrl}/article`,
+    ]);
+    for (const record of records) {
+      expect(record.headers.get("warc-record-id")).toMatch(/^<urn:uuid:[0-9a-f-]{36}>$/);
+      expect(record.headers.get("warc-block-digest")).toBe(warcDigest(record.block));
+    }
+
+    const [, , firstRequest, article, articleRequest] = records;
+    expect(firstRequest.headers.get("warc-concurrent-to")).toBe(records[1].headers.get("warc-record-id"));
+    expect(article.headers.get("warc-payload-digest")).toBe(warcDigest(Buffer.from(ARTICLE)));
+    const response = article.block.toString("utf-8");
+    expect(response).toMatch(/^HTTP\/1\.1 200 OK\r\n/);
+    expect(response).toContain("x-archive-orig-content-encoding: gzip\r\n");
+    expect(response.endsWith(`\r\n\r\n${ARTICLE}`)).toBe(true);
+    const request = articleRequest.block.toString("utf-8");
+    expect(request).toMatch(/^GET \/article HTTP\/1\.1\r\nHost: localhost:\d+\r\n/);
+    expect(request).toContain("Authorization: [REDACTED]");
+    expect(readFileSync(join(dir, "audit.warc"), "utf-8")).not.toContain("top-secret");
+  });
+
+  it("should read pages back and run extractors without the network", async () => {
+    await fetchUrl({ url: `${baseUrl}/old`, warc: "offline" });
+    hits.length = 0;
+
+    const markdown = await extractFromWarc({ warc: "offline", url: `${baseUrl}/old` });
+    const raw = await extractFromWarc({
+      warc: "offline.warc",
+      url: `${baseUrl}/old`,
+      extractor: "fetch_url",
+    });
+
+    expect(hits).toEqual([]);
+    expect(markdown.ok).toBe(true);
+    if (markdown.ok && "markdown" in markdown.data) {
+      expect(markdown.data.markdown).toContain("Exactly these bytes.");
+      expect(markdown.meta.archived_at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(markdown.meta.warc?.records).toHaveLength(2);
+    }
+    if (raw.ok && "html" in raw.data) {
+      expect(raw.data.html).toBe(ARTICLE);
+      expect(raw.data.final_url).toBe(`${baseUrl}/article`);
+      expect(raw.data.redirects).toEqual([
+        { url: `${baseUrl}/old`, status: 301, location: `${baseUrl}/article` },
+      ]);
+    }
+  });
+
+  it("should write compressed WARC files from the extractors", async () => {
+    const written = await extractTables({ html_or_url: `${baseUrl}/prices`, warc: "prices.warc.gz" });
+    expect(written.ok && written.meta.warc?.records).toHaveLength(2);
+    expect(readFileSync(join(dir, "prices.warc.gz")).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+
+    const tables = await extractFromWarc({
+      warc: "prices.warc.gz",
+      url: `${baseUrl}/prices`,
+      extractor: "extract_tables",
+    });
+    expect(tables.ok && "tables" in tables.data && tables.data.tables[0].rows).toEqual([
+      ["Basic", "5"],
+    ]);
+  });
+
+  it("should decode chunked and compressed records written by other tools", async () => {
+    const body = gzipSync("<p>from another crawler</p>");
+    const chunked = Buffer.concat([
+      Buffer.from(`${body.byteLength.toString(16)}\r\n`),
+      body,
+      Buffer.from("\r\n0\r\n\r\n"),
+    ]);
+    const block = Buffer.concat([
+      Buffer.from(
+        "HTTP/1.1 200 OK\r\nContent-Type: text/html\r\nContent-Encoding: gzip\r\nTransfer-Encoding: chunked\r\n\r\n"
+      ),
+      chunked,
+    ]);
+    writeFileSync(
+      join(dir, "foreign.warc"),
+      Buffer.concat([
+        Buffer.from(
+          `WARC/1.0\r\nWARC-Type: response\r\nWARC-Record-ID: <urn:uuid:00000000-0000-0000-0000-000000000000>\r\nWARC-Date: 2020-01-01T00:00:00Z\r\nWARC-Target-URI: <http://example.com/>\r\nContent-Length: ${block.byteLength}\r\n\r\n`
+        ),
+        block,
+        Buffer.from("\r\n\r\n"),
+      ])
+    );
+
+    const result = await extractFromWarc({
+      warc: "foreign",
+      url: "http://example.com/",
+      extractor: "fetch_url",
+    });
+
+    expect(result.ok && "html" in result.data && result.data.html).toBe("<p>from another crawler</p>");
+    expect(result.ok && result.meta.archived_at).toBe("2020-01-01T00:00:00Z");
+  });
+
+  it("should report URLs missing from the archive and invalid file names", async () => {
+    await fetchUrl({ url: `${baseUrl}/prices`, warc: "small" });
+
+    const missing = await extractFromWarc({ warc: "small", url: `${baseUrl}/elsewhere` });
+    const badName = await fetchUrl({ url: `${baseUrl}/prices`, warc: "../escape" });
+    const noFile = await extractFromWarc({ warc: "never-written", url: `${baseUrl}/prices` });
+
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) {
+      expect(missing.error.code).toBe("INVALID_INPUT");
+      expect(missing.error.details?.archived_urls).toEqual([`${baseUrl}/prices`]);
+    }
+    for (const result of [badName, noFile]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("INVALID_INPUT");
+      }
+    }
+  });
+});